@@ -8,18 +8,37 @@
  * Usage:
  *   npx unbrowse-mcp
  *   unbrowse-mcp (if installed globally)
+ *   unbrowse-mcp --profile work   Use a profile from ~/.config/unbrowse/config.json
+ *   unbrowse-mcp --transport http [--port 3000] [--host 127.0.0.1] [--multi-tenant]   Serve over Streamable HTTP
+ *   unbrowse-mcp keygen [--out <path>]   Create a wallet for x402 mode
+ *   unbrowse-mcp doctor [--json]   Check configuration and connectivity
+ *   unbrowse-mcp search|exec|ability|ingest|credentials|payments|wallet ... [--json]   Terminal commands (see src/cli-commands.ts)
  *
  * Environment variables:
  *   SOLANA_PRIVATE_KEY - Solana private key for x402 payment mode (recommended)
+ *   SOLANA_KEYPAIR_PATH - Alternative: Solana CLI keypair file for x402 payment mode
+ *   UNBROWSE_X402_SIGNER_COMMAND - Alternative: external x402 signer process
  *   UNBROWSE_API_KEY - Your Unbrowse API key (starts with re_)
  *   UNBROWSE_SESSION_TOKEN - Alternative: your session token
  *   UNBROWSE_PASSWORD - Password for credential decryption (optional)
  *   DEV_MODE - Enable developer mode for detailed API docs
+ *   UNBROWSE_PROFILE - Config file profile to use (same as --profile)
+ *   UNBROWSE_CORS_ORIGINS - Origins allowed to call the HTTP transport from a browser
+ *   UNBROWSE_HTTP_TOKEN - Bearer token HTTP clients must send (required for a non-loopback --host)
  */
 
-// Load the stdio transport server - this handles all MCP communication
+const args = process.argv.slice(2);
+const transportIndex = args.indexOf("--transport");
+const transport = transportIndex >= 0 ? args[transportIndex + 1] : "stdio";
+
+if (transport !== "stdio" && transport !== "http") {
+  console.error(`[ERROR] Unknown transport: ${transport} (expected 'stdio' or 'http')`);
+  process.exit(1);
+}
+
+// Load the transport server - this handles all MCP communication
 try {
-  require("../dist/stdio-server.cjs");
+  require(transport === "http" ? "../dist/http-server.cjs" : "../dist/stdio-server.cjs");
 } catch (error) {
   console.error("[ERROR] Failed to start Unbrowse MCP server:", error);
   process.exit(1);
@@ -0,0 +1,283 @@
+/**
+ * Ability Backends
+ *
+ * Tool handlers reach the Unbrowse index through an AbilityBackend, so they do
+ * not need to know how a request is authenticated or paid for. The API key
+ * client (UnbrowseApiClient), the x402 client (UnbrowseX402Client) and the
+ * hybrid FallbackBackend implement it. Operations a backend cannot perform are
+ * advertised through its capability flags and throw UnsupportedOperationError.
+ */
+
+import type { IndexedAbility } from "./api-client.js";
+
+/**
+ * How a backend authenticates (and pays for) requests
+ */
+export type BackendMode = "api_key" | "session_token" | "x402";
+
+/**
+ * The mode a server with the given credentials runs in, and why
+ */
+export interface AuthModeSelection {
+  mode: BackendMode;
+  x402Fallback: boolean; // x402 pays for calls the account has no tokens left for (hybrid mode)
+  reason: string;
+}
+
+/**
+ * Picks the backend mode for the configured credentials: an API key or session
+ * token is preferred, x402 is used alone when neither is set
+ *
+ * @returns null when no credentials are configured
+ */
+export function selectAuthMode(auth: {
+  apiKey?: string;
+  sessionToken?: string;
+  hasPaymentSigner: boolean;
+  x402Fallback: boolean; // Whether x402 fallback is enabled in the config
+}): AuthModeSelection | null {
+  if (!auth.apiKey && !auth.sessionToken) {
+    return auth.hasPaymentSigner
+      ? { mode: "x402", x402Fallback: false, reason: "Only an x402 signer is configured (no API key or session token)" }
+      : null;
+  }
+
+  const mode: BackendMode = auth.apiKey && auth.apiKey.startsWith("re_") ? "api_key" : "session_token";
+  const reasons = [
+    mode === "api_key"
+      ? "An API key (re_ prefix) is configured"
+      : auth.apiKey
+        ? "The API key has no re_ prefix, so it is used as a session token"
+        : "A session token is configured",
+  ];
+  if (auth.apiKey && auth.sessionToken) {
+    reasons.push("it takes precedence over the session token");
+  }
+  if (auth.hasPaymentSigner) {
+    reasons.push(auth.x402Fallback
+      ? "x402 pays for calls the account has no tokens left for"
+      : "the x402 signer is unused because x402Fallback is off");
+  }
+  return { mode, x402Fallback: auth.hasPaymentSigner && auth.x402Fallback, reason: reasons.join("; ") };
+}
+
+export interface BackendCapabilities {
+  domainFilter: boolean; // The server applies domain whitelists (otherwise results are filtered on the client)
+  listAbilities: boolean; // The account's own and favorited abilities
+  ingest: boolean; // ingestApiEndpoint
+  wrapperCode: boolean; // Wrapper source is available, needed for local execution
+  storedCredentials: boolean; // Credentials stored in the account's cookie jar
+  paidRequests: boolean; // Each search and execution is paid for separately
+}
+
+/**
+ * Domain whitelist applied to a search, and whether the server or this client applied it
+ */
+export interface DomainFiltering {
+  domains: string[];
+  appliedBy: "server" | "client";
+}
+
+export interface AbilitySearchResult {
+  success: boolean;
+  count: number;
+  query: string;
+  abilities: IndexedAbility[];
+  paidBy: BackendMode | null; // null for free searches (public index)
+  domainFiltering?: DomainFiltering;
+  cost?: string;
+  payment?: {
+    verified: boolean;
+    signature?: string;
+    type: string;
+  };
+}
+
+export interface AbilityExecuteOptions {
+  transformCode?: string;
+  credentialKey?: string; // Decrypts stored credentials (ignored without storedCredentials)
+  credentials?: Record<string, string>; // Dynamic header key -> value, used instead of stored credentials
+}
+
+export interface AbilityExecutionResult {
+  success: boolean;
+  result?: {
+    statusCode: number;
+    abilityName: string;
+    domain: string;
+    body: any;
+    headers: Record<string, string>;
+    executedAt: string;
+    executionTimeMs?: number;
+  };
+  health?: {
+    score: number;
+    totalExecutions: number;
+    successRate: string;
+  };
+  error?: string;
+  credentialsExpired?: boolean;
+  defunct?: boolean;
+  loginAbilities?: Array<{
+    id: string;
+    name: string;
+    description: string;
+  }>;
+  healthScore?: number;
+  totalExecutions?: number;
+  successRate?: string;
+  payment?: {
+    verified: boolean;
+    signature?: string;
+    type: string;
+  };
+  paidBy?: BackendMode; // Unset for executions that never reached a backend (e.g. local)
+}
+
+export interface AbilityDetailsResult {
+  success: boolean;
+  ability: IndexedAbility;
+  wrapper: any;
+}
+
+export interface AbilityListResult {
+  success: boolean;
+  count: number;
+  abilities: IndexedAbility[];
+}
+
+export interface IngestRequest {
+  input: string; // API URL or curl command
+  serviceName: string;
+  abilityName?: string;
+  description?: string;
+}
+
+export interface IngestResult {
+  success: boolean;
+  message?: string;
+  ability_id?: string;
+  ability_name?: string;
+  input_schema?: any;
+  output_schema?: any;
+}
+
+export interface AbilityBackend {
+  readonly mode: BackendMode;
+  readonly capabilities: BackendCapabilities;
+
+  searchAbilities(query: string, limit?: number, domains?: string[]): Promise<AbilitySearchResult>;
+  searchPublicAbilities(query: string, limit?: number, domains?: string[]): Promise<AbilitySearchResult>;
+  executeAbility(
+    abilityId: string,
+    params: Record<string, any>,
+    options?: AbilityExecuteOptions,
+  ): Promise<AbilityExecutionResult>;
+  getAbility(abilityId: string): Promise<AbilityDetailsResult>;
+  listAbilities(options?: { favorites?: boolean; published?: boolean }): Promise<AbilityListResult>;
+  ingestApiEndpoint(request: IngestRequest): Promise<IngestResult>;
+}
+
+/**
+ * Keeps abilities whose domain is one of the given domains or a subdomain of one
+ * (for backends whose server cannot filter by domain)
+ */
+export function filterAbilitiesByDomain(abilities: IndexedAbility[], domains: string[]): IndexedAbility[] {
+  const normalize = (domain: string) => domain.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/[/:].*$/, "");
+  const allowed = domains.map(normalize).filter(Boolean);
+  return abilities.filter((ability) => {
+    const domain = ability.domain ? normalize(ability.domain) : "";
+    return domain !== "" && allowed.some((base) => domain === base || domain.endsWith(`.${base}`));
+  });
+}
+
+/**
+ * Thrown by a backend for an operation its capabilities do not include
+ */
+export class UnsupportedOperationError extends Error {
+  readonly code = "UNSUPPORTED_OPERATION";
+
+  constructor(operation: string, mode: BackendMode) {
+    super(`${operation} is not available in ${mode} mode`);
+    this.name = "UnsupportedOperationError";
+  }
+}
+
+/**
+ * Thrown when the account behind an API key or session token has no tokens
+ * left for a search or execution (HTTP 402)
+ */
+export class InsufficientTokensError extends Error {
+  readonly code = "INSUFFICIENT_TOKENS";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientTokensError";
+  }
+}
+
+/**
+ * Hybrid backend: every call goes to the primary backend, and a search or
+ * execution the primary account has no tokens left for is repeated once on
+ * the fallback (e.g. API key first, x402 when the account runs dry).
+ */
+export class FallbackBackend implements AbilityBackend {
+  readonly mode: BackendMode;
+  readonly capabilities: BackendCapabilities;
+  private readonly primary: AbilityBackend;
+  private readonly fallback: AbilityBackend;
+
+  constructor(primary: AbilityBackend, fallback: AbilityBackend) {
+    this.primary = primary;
+    this.fallback = fallback;
+    this.mode = primary.mode;
+    this.capabilities = primary.capabilities;
+  }
+
+  searchAbilities(query: string, limit?: number, domains?: string[]): Promise<AbilitySearchResult> {
+    return this.withFallback(
+      `Search "${query}"`,
+      (backend) => backend.searchAbilities(query, limit, domains),
+    );
+  }
+
+  searchPublicAbilities(query: string, limit?: number, domains?: string[]): Promise<AbilitySearchResult> {
+    return this.withFallback(
+      `Public search "${query}"`,
+      (backend) => backend.searchPublicAbilities(query, limit, domains),
+    );
+  }
+
+  executeAbility(
+    abilityId: string,
+    params: Record<string, any>,
+    options?: AbilityExecuteOptions,
+  ): Promise<AbilityExecutionResult> {
+    return this.withFallback(
+      `Execution of ${abilityId}`,
+      (backend) => backend.executeAbility(abilityId, params, options),
+    );
+  }
+
+  getAbility(abilityId: string): Promise<AbilityDetailsResult> {
+    return this.primary.getAbility(abilityId);
+  }
+
+  listAbilities(options?: { favorites?: boolean; published?: boolean }): Promise<AbilityListResult> {
+    return this.primary.listAbilities(options);
+  }
+
+  ingestApiEndpoint(request: IngestRequest): Promise<IngestResult> {
+    return this.primary.ingestApiEndpoint(request);
+  }
+
+  private async withFallback<T>(label: string, call: (backend: AbilityBackend) => Promise<T>): Promise<T> {
+    try {
+      return await call(this.primary);
+    } catch (error) {
+      if (!(error instanceof InsufficientTokensError)) throw error;
+      console.error(`[INFO] ${label}: account is out of tokens (${error.message}), paying with ${this.fallback.mode}`);
+      return call(this.fallback);
+    }
+  }
+}
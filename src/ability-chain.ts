@@ -0,0 +1,266 @@
+/**
+ * Client-side Ability Chain Orchestrator
+ *
+ * Runs a sequence of abilities where the output of one step feeds the input
+ * of the next. Each step is a regular executeAbility call, so chains work with
+ * both the API key client and the x402 client.
+ *
+ * Data flow between steps:
+ * - With outputMapping, only the mapped fields are copied (dot notation on both sides)
+ * - Without outputMapping, an object output is merged into the next step's params
+ * - Explicit params always win over values coming from the previous step
+ */
+
+/**
+ * A single step in an ability chain
+ */
+export interface ChainStep {
+  abilityId: string;
+  params?: Record<string, any>;
+  // Maps a path in this step's output to a path in the next step's params
+  // e.g. { "tweets.0.id": "tweetId" }
+  outputMapping?: Record<string, string>;
+  transform_code?: string;
+}
+
+/**
+ * Subset of the executeAbility response shape shared by both clients
+ */
+export interface ChainExecutionResponse {
+  success: boolean;
+  result?: {
+    statusCode: number;
+    abilityName: string;
+    domain: string;
+    body: any;
+    executedAt: string;
+    executionTimeMs?: number;
+  };
+  error?: string;
+  credentialsExpired?: boolean;
+  defunct?: boolean;
+  healthScore?: number;
+  paidBy?: string; // Auth mode that paid for the execution
+}
+
+export type ChainAbilityExecutor = (
+  abilityId: string,
+  params: Record<string, any>,
+  transformCode?: string,
+) => Promise<ChainExecutionResponse>;
+
+/**
+ * Trace entry for one step of the chain
+ */
+export interface ChainStepTrace {
+  step: number;
+  abilityId: string;
+  abilityName?: string;
+  status: "success" | "failed" | "skipped";
+  params?: Record<string, any>;
+  mappedFields?: string[];
+  statusCode?: number;
+  executionTimeMs: number;
+  output?: any;
+  error?: string;
+  credentialsExpired?: boolean;
+  defunct?: boolean;
+  paidBy?: string;
+}
+
+export interface ChainResult {
+  success: boolean;
+  stepsCompleted: number;
+  stepsTotal: number;
+  totalExecutionTimeMs: number;
+  finalOutput?: any;
+  trace: ChainStepTrace[];
+}
+
+export const MAX_CHAIN_STEPS = 10;
+
+// Path segments that would reach or replace an object's prototype
+const UNSAFE_PATH_SEGMENTS = new Set(["__proto__", "constructor", "prototype"]);
+
+const hasOwn = (value: object, key: string): boolean => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Reads a dot-notation path (e.g. "data.items.0.id") from a value.
+ * Only own properties are followed.
+ */
+export function getByPath(source: any, path: string): { found: boolean; value?: any } {
+  let current = source;
+  for (const segment of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return { found: false };
+    }
+    if (!hasOwn(current, segment)) {
+      return { found: false };
+    }
+    current = current[segment];
+  }
+  return { found: true, value: current };
+}
+
+/**
+ * Writes a value at a dot-notation path, creating intermediate objects.
+ * Throws on __proto__, constructor and prototype segments.
+ */
+export function setByPath(target: Record<string, any>, path: string, value: any): void {
+  const segments = path.split(".");
+  const unsafe = segments.find((segment) => UNSAFE_PATH_SEGMENTS.has(segment));
+  if (unsafe) {
+    throw new Error(`outputMapping target '${path}' contains the reserved segment '${unsafe}'`);
+  }
+
+  let current = target;
+  for (const segment of segments.slice(0, -1)) {
+    if (!hasOwn(current, segment) || current[segment] === null || typeof current[segment] !== "object") {
+      current[segment] = {};
+    }
+    current = current[segment];
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+const isPlainObject = (value: any): value is Record<string, any> =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * Builds the params for a step from its own params and the previous step's output
+ */
+function resolveStepParams(
+  step: ChainStep,
+  previous: { output: any; outputMapping?: Record<string, string> } | null,
+): { params: Record<string, any>; mappedFields: string[] } {
+  const baseParams = step.params || {};
+
+  if (!previous) {
+    return { params: { ...baseParams }, mappedFields: [] };
+  }
+
+  if (previous.outputMapping && Object.keys(previous.outputMapping).length > 0) {
+    const params: Record<string, any> = {};
+    const mappedFields: string[] = [];
+    for (const [sourcePath, targetPath] of Object.entries(previous.outputMapping)) {
+      const { found, value } = getByPath(previous.output, sourcePath);
+      if (!found) {
+        throw new Error(`outputMapping path '${sourcePath}' not found in previous step output`);
+      }
+      setByPath(params, targetPath, value);
+      mappedFields.push(targetPath);
+    }
+    return { params: { ...params, ...baseParams }, mappedFields };
+  }
+
+  if (isPlainObject(previous.output)) {
+    return {
+      params: { ...previous.output, ...baseParams },
+      mappedFields: Object.keys(previous.output).filter((key) => !(key in baseParams)),
+    };
+  }
+
+  return { params: { ...baseParams }, mappedFields: [] };
+}
+
+/**
+ * Executes a chain of abilities sequentially
+ *
+ * @param steps - Steps to execute in order (max MAX_CHAIN_STEPS)
+ * @param execute - Function that executes a single ability
+ * @param options.stopOnError - Stop at the first failing step (remaining steps are skipped)
+ */
+export async function executeAbilityChain(
+  steps: ChainStep[],
+  execute: ChainAbilityExecutor,
+  options: { stopOnError?: boolean } = {},
+): Promise<ChainResult> {
+  const stopOnError = options.stopOnError ?? true;
+
+  if (steps.length === 0) {
+    throw new Error("Chain must contain at least one step");
+  }
+  if (steps.length > MAX_CHAIN_STEPS) {
+    throw new Error(`Chain has ${steps.length} steps, maximum is ${MAX_CHAIN_STEPS}`);
+  }
+
+  const chainStart = Date.now();
+  const trace: ChainStepTrace[] = [];
+  let previous: { output: any; outputMapping?: Record<string, string> } | null = null;
+  let stopped = false;
+
+  for (const [index, step] of steps.entries()) {
+    const stepNumber = index + 1;
+
+    if (stopped) {
+      trace.push({ step: stepNumber, abilityId: step.abilityId, status: "skipped", executionTimeMs: 0 });
+      continue;
+    }
+
+    const stepStart = Date.now();
+    let params: Record<string, any> | undefined;
+
+    try {
+      const resolved = resolveStepParams(step, previous);
+      params = resolved.params;
+
+      console.error(`[TRACE] Chain step ${stepNumber}/${steps.length}: ${step.abilityId}`);
+      const response = await execute(step.abilityId, params, step.transform_code);
+
+      if (!response.success) {
+        trace.push({
+          step: stepNumber,
+          abilityId: step.abilityId,
+          abilityName: response.result?.abilityName,
+          status: "failed",
+          params,
+          mappedFields: resolved.mappedFields,
+          statusCode: response.result?.statusCode,
+          executionTimeMs: Date.now() - stepStart,
+          error: response.error || "Execution failed",
+          credentialsExpired: response.credentialsExpired,
+          defunct: response.defunct,
+          paidBy: response.paidBy,
+        });
+        stopped = stopOnError;
+        continue;
+      }
+
+      const output = response.result?.body;
+      trace.push({
+        step: stepNumber,
+        abilityId: step.abilityId,
+        abilityName: response.result?.abilityName,
+        status: "success",
+        params,
+        mappedFields: resolved.mappedFields,
+        statusCode: response.result?.statusCode,
+        executionTimeMs: Date.now() - stepStart,
+        output,
+        paidBy: response.paidBy,
+      });
+      previous = { output, outputMapping: step.outputMapping };
+    } catch (error: any) {
+      trace.push({
+        step: stepNumber,
+        abilityId: step.abilityId,
+        status: "failed",
+        params,
+        executionTimeMs: Date.now() - stepStart,
+        error: error.message || String(error),
+      });
+      stopped = stopOnError;
+    }
+  }
+
+  const completed = trace.filter((entry) => entry.status === "success");
+
+  return {
+    success: completed.length === steps.length,
+    stepsCompleted: completed.length,
+    stepsTotal: steps.length,
+    totalExecutionTimeMs: Date.now() - chainStart,
+    finalOutput: completed.length > 0 ? completed[completed.length - 1].output : undefined,
+    trace,
+  };
+}
@@ -7,15 +7,48 @@
  * Supports two authentication modes:
  * 1. API Key / Session Token - Traditional bearer token authentication
  * 2. x402 Payment - Pay-per-request using Solana USDC (no auth required)
+ *
+ * Both clients implement AbilityBackend (see ability-backend.ts).
  */
 
+import {
+  filterAbilitiesByDomain,
+  InsufficientTokensError,
+  UnsupportedOperationError,
+  type AbilityBackend,
+  type AbilityDetailsResult,
+  type AbilityExecuteOptions,
+  type AbilityExecutionResult,
+  type AbilityListResult,
+  type AbilitySearchResult,
+  type BackendCapabilities,
+  type IngestRequest,
+  type IngestResult,
+} from "./ability-backend.js";
+
 import {
   X402SolanaClient,
   createX402Client,
   parsePaymentRequirement,
+  PaymentPolicyError,
+  USDC_MINTS,
+  X402_PRICES,
+  validatePaymentRequirement,
   type X402Config,
+  type PaymentPolicy,
   type PaymentRequirement,
+  type X402Operation,
 } from "./x402-solana.js";
+import {
+  BudgetExceededError,
+  PaymentBudget,
+  type BudgetExceededDetails,
+  type BudgetLimits,
+  type BudgetStatus,
+} from "./payment-budget.js";
+import { PaymentLedger, type PaymentQuery } from "./payment-ledger.js";
+import { MAX_NONCE_ATTEMPTS, isPaymentRecordCollision } from "./payment-nonce.js";
+import { KeypairSigner, type PaymentSigner } from "./payment-signer.js";
 
 /**
  * Interface for indexed abilities from the API
@@ -71,6 +104,7 @@ export interface IndexedAbility {
 export interface ApiClientConfig {
   apiKey?: string;
   sessionToken?: string;
+  baseUrl?: string; // Defaults to UNBROWSE_API_BASE_URL
   timeout?: number;
   // x402 payment configuration (alternative to apiKey/sessionToken)
   x402?: {
@@ -123,13 +157,58 @@ function transformAbilityResponse(apiAbility: any): IndexedAbility {
   };
 }
 
+/**
+ * Public index search shared by both clients. Nobody pays for it, and the
+ * endpoint has no domain filter, so domains are applied to the results.
+ */
+async function searchPublicIndex(
+  baseUrl: string,
+  fetchFn: (url: string) => Promise<Response>,
+  query: string,
+  limit: number,
+  domains?: string[],
+): Promise<AbilitySearchResult> {
+  const filterDomains = domains && domains.length > 0 ? domains : undefined;
+  const params = new URLSearchParams({ q: query, limit: String(filterDomains ? Math.max(limit, 45) : limit) });
+  const response = await fetchFn(`${baseUrl}/public/abilities?${params}`);
+
+  if (!response.ok) {
+    throw new Error(`Failed to search public abilities: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+
+  // Transform camelCase API response to snake_case
+  let abilities: IndexedAbility[] = (data.abilities || []).map(transformAbilityResponse);
+  if (filterDomains) {
+    abilities = filterAbilitiesByDomain(abilities, filterDomains).slice(0, limit);
+  }
+
+  return {
+    success: data.success,
+    count: filterDomains ? abilities.length : data.count,
+    query: data.query,
+    abilities,
+    paidBy: null,
+    domainFiltering: filterDomains ? { domains: filterDomains, appliedBy: 'client' } : undefined,
+  };
+}
+
 /**
  * Unbrowse API Client
  */
-export class UnbrowseApiClient {
+export class UnbrowseApiClient implements AbilityBackend {
+  readonly mode: 'api_key' | 'session_token';
+  readonly capabilities: BackendCapabilities = {
+    domainFilter: true,
+    listAbilities: true,
+    ingest: true,
+    wrapperCode: true,
+    storedCredentials: true,
+    paidRequests: false,
+  };
   private readonly baseUrl: string;
   private readonly authToken: string;
-  private readonly authType: 'api_key' | 'session_token';
   private timeout: number;
 
   constructor(config: ApiClientConfig) {
@@ -141,11 +220,11 @@ export class UnbrowseApiClient {
 
     this.authToken = authToken;
     // Auto-detect auth type (API keys start with "re_", session tokens don't)
-    this.authType = config.apiKey && config.apiKey.startsWith("re_") ? "api_key" : "session_token";
-    this.baseUrl = UNBROWSE_API_BASE_URL;
+    this.mode = config.apiKey && config.apiKey.startsWith("re_") ? "api_key" : "session_token";
+    this.baseUrl = config.baseUrl || UNBROWSE_API_BASE_URL;
     this.timeout = config.timeout || 300000; // 10 second default timeout
 
-    console.error(`[API Client] Initialized with auth type: ${this.authType}`);
+    console.error(`[API Client] Initialized with auth type: ${this.mode}`);
   }
 
   /**
@@ -182,11 +261,7 @@ export class UnbrowseApiClient {
   async listAbilities(options: {
     favorites?: boolean;
     published?: boolean;
-  } = {}): Promise<{
-    success: boolean;
-    count: number;
-    abilities: IndexedAbility[];
-  }> {
+  } = {}): Promise<AbilityListResult> {
     const params = new URLSearchParams();
 
     if (options.favorites !== undefined) {
@@ -222,13 +297,7 @@ export class UnbrowseApiClient {
    * @param limit - Maximum number of results to return (default: 6, max: 45)
    * @param domains - Optional domain whitelist for filtering results (e.g., ["api.github.com", "github.com"])
    */
-  async searchAbilities(query: string, limit: number = 12, domains?: string[]): Promise<{
-    success: boolean;
-    count: number;
-    query: string;
-    abilities: IndexedAbility[];
-    cost?: string;
-  }> {
+  async searchAbilities(query: string, limit: number = 12, domains?: string[]): Promise<AbilitySearchResult> {
     const params = new URLSearchParams({
       q: query,
       top_k: String(Math.min(limit, 45)) // Server enforces max of 45
@@ -246,7 +315,7 @@ export class UnbrowseApiClient {
     if (!response.ok) {
       if (response.status === 402) {
         const data = await response.json();
-        throw new Error(data.error || 'Insufficient tokens for search');
+        throw new InsufficientTokensError(data.error || 'Insufficient tokens for search');
       }
       throw new Error(`Failed to search abilities: ${response.status} ${response.statusText}`);
     }
@@ -262,47 +331,26 @@ export class UnbrowseApiClient {
       query: data.query,
       abilities: (data.results || []).map(transformAbilityResponse),
       cost: data.cost,
+      paidBy: this.mode,
+      domainFiltering: domains && domains.length > 0 ? { domains, appliedBy: 'server' } : undefined,
     };
   }
 
   /**
    * Search public published abilities
    * GET /public/abilities?q=<query>
+   *
+   * The endpoint has no domain filter, so domains are applied to the results here
    */
-  async searchPublicAbilities(query: string, limit: number = 30): Promise<{
-    success: boolean;
-    count: number;
-    query: string;
-    abilities: IndexedAbility[];
-  }> {
-    const params = new URLSearchParams({ q: query, limit: String(limit) });
-    const url = `${this.baseUrl}/public/abilities?${params}`;
-    const response = await this.fetchWithTimeout(url);
-
-    if (!response.ok) {
-      throw new Error(`Failed to search public abilities: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    // Transform camelCase API response to snake_case
-    return {
-      success: data.success,
-      count: data.count,
-      query: data.query,
-      abilities: (data.abilities || []).map(transformAbilityResponse),
-    };
+  async searchPublicAbilities(query: string, limit: number = 30, domains?: string[]): Promise<AbilitySearchResult> {
+    return searchPublicIndex(this.baseUrl, (url) => this.fetchWithTimeout(url), query, limit, domains);
   }
 
   /**
    * Get a specific ability by ID
    * GET /abilities/:abilityId
    */
-  async getAbility(abilityId: string): Promise<{
-    success: boolean;
-    ability: IndexedAbility;
-    wrapper: any;
-  }> {
+  async getAbility(abilityId: string): Promise<AbilityDetailsResult> {
     const url = `${this.baseUrl}/abilities/${encodeURIComponent(abilityId)}`;
     const response = await this.fetchWithTimeout(url);
 
@@ -515,43 +563,14 @@ export class UnbrowseApiClient {
    *
    * @param abilityId - The abilityId to execute
    * @param params - Parameters object to pass to the ability
-   * @param options - Optional configuration including transformCode and credentialKey
+   * @param options - Optional configuration including transformCode, credentialKey and
+   *   credentials (dynamic header key -> value, used instead of stored credentials)
    */
   async executeAbility(
     abilityId: string,
     params: Record<string, any>,
-    options: {
-      transformCode?: string;
-      credentialKey?: string;
-    } = {}
-  ): Promise<{
-    success: boolean;
-    result?: {
-      statusCode: number;
-      abilityName: string;
-      domain: string;
-      body: any;
-      headers: Record<string, string>;
-      executedAt: string;
-      executionTimeMs?: number;
-    };
-    health?: {
-      score: number;
-      totalExecutions: number;
-      successRate: string;
-    };
-    error?: string;
-    credentialsExpired?: boolean;
-    defunct?: boolean;
-    loginAbilities?: Array<{
-      id: string;
-      name: string;
-      description: string;
-    }>;
-    healthScore?: number;
-    totalExecutions?: number;
-    successRate?: string;
-  }> {
+    options: AbilityExecuteOptions = {}
+  ): Promise<AbilityExecutionResult> {
     const url = `${this.baseUrl}/my/abilities/${encodeURIComponent(abilityId)}/execute`;
 
     console.error(`[INFO] Executing ability at URL: ${url}`);
@@ -572,9 +591,14 @@ export class UnbrowseApiClient {
     const requestBody = {
       params,
       transformCode: options.transformCode,
+      credentials: options.credentials,
     };
 
-    console.error(`[INFO] Request body:`, JSON.stringify(requestBody));
+    // Never log credential values
+    console.error(`[INFO] Request body:`, JSON.stringify({
+      ...requestBody,
+      credentials: options.credentials ? Object.keys(options.credentials) : undefined,
+    }));
     console.error(`[INFO] Request headers:`, JSON.stringify(headers, null, 2));
 
     const response = await this.fetchWithTimeout(url, {
@@ -599,13 +623,49 @@ export class UnbrowseApiClient {
     }
 
     if (!response.ok) {
+      // Structured failures (expired credentials, defunct abilities) carry details
+      // like loginAbilities and health - return them instead of throwing
+      if (data && data.success === false && (data.credentialsExpired || data.defunct || data.loginAbilities)) {
+        return { ...data, paidBy: this.mode };
+      }
+
+      if (response.status === 402) {
+        throw new InsufficientTokensError(data.error || 'Insufficient tokens for execution');
+      }
+
       // Handle error responses with additional context
       throw new Error(
         data.error || `Failed to execute ability: ${response.status} ${response.statusText}`
       );
     }
 
-    return data;
+    return { ...data, paidBy: this.mode };
+  }
+
+  /**
+   * Index an API URL or curl command as a new ability
+   * POST /ingest/api
+   */
+  async ingestApiEndpoint(request: IngestRequest): Promise<IngestResult> {
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/ingest/api`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        input: request.input,
+        service_name: request.serviceName,
+        ability_name: request.abilityName,
+        description: request.description,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(errorData.error || `API ingestion failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
   }
 }
 
@@ -613,11 +673,11 @@ export class UnbrowseApiClient {
  * Create an API client instance
  * @param authToken - Your Unbrowse API key or session token
  */
-export function createApiClient(authToken: string): UnbrowseApiClient {
+export function createApiClient(authToken: string, baseUrl?: string): UnbrowseApiClient {
   // Auto-detect whether this is an API key or session token
   const isApiKey = authToken.startsWith("re_");
   return new UnbrowseApiClient(
-    isApiKey ? { apiKey: authToken } : { sessionToken: authToken }
+    isApiKey ? { apiKey: authToken, baseUrl } : { sessionToken: authToken, baseUrl }
   );
 }
 
@@ -631,6 +691,7 @@ export function createApiClient(authToken: string): UnbrowseApiClient {
 export interface PaymentRecord {
   id: string;
   timestamp: number;
+  wallet?: string; // Paying wallet (records written before this field existed have none)
   type: 'search' | 'execute';
   abilityId?: string;
   abilityName?: string;
@@ -657,6 +718,28 @@ export interface PaymentSummary {
   recentPayments: PaymentRecord[];
 }
 
+/**
+ * Projected cost of a batch of x402 requests
+ */
+export interface CostEstimate {
+  searches: number;
+  executions: number;
+  projectedCost: string;
+  projectedUsdc: number;
+  projectedCents: number;
+  balance?: {
+    chain: 'devnet' | 'mainnet-beta';
+    balance: string;
+    balanceFormatted: string;
+    sufficient: boolean;
+  };
+  budget: BudgetStatus & {
+    limited: boolean;
+    withinBudget: boolean;
+    exceeded?: BudgetExceededDetails; // First limit the batch would exceed
+  };
+}
+
 /**
  * x402 Payment-based API Client
  *
@@ -664,25 +747,59 @@ export interface PaymentSummary {
  * Automatically handles 402 Payment Required responses by constructing
  * and signing USDC transfer transactions.
  *
- * Includes payment tracking to monitor spending.
+ * Includes payment tracking to monitor spending, persisted to an append-only
+ * ledger (see payment-ledger.ts). Before any payment is signed,
+ * the 402 requirement is validated against the payment policy and checked
+ * against the optional budget limits.
  */
-export class UnbrowseX402Client {
+export class UnbrowseX402Client implements AbilityBackend {
+  readonly mode = 'x402' as const;
+  readonly capabilities: BackendCapabilities = {
+    domainFilter: false,
+    listAbilities: false,
+    ingest: false,
+    wrapperCode: false,
+    storedCredentials: false,
+    paidRequests: true,
+  };
   private readonly baseUrl: string;
   private readonly x402Client: X402SolanaClient;
   private timeout: number;
-  private paymentHistory: PaymentRecord[] = [];
+  private readonly ledger: PaymentLedger;
+  private readonly budget: PaymentBudget;
+  private readonly paymentPolicy: PaymentPolicy;
+  private lastRequirement: { chain: 'devnet' | 'mainnet-beta'; seenAt: number } | null = null;
 
   constructor(config: {
-    privateKey: string; // Base58 Solana private key
+    signer: PaymentSigner;
     rpcUrl?: string;
+    baseUrl?: string; // Defaults to UNBROWSE_API_BASE_URL
     timeout?: number;
+    budget?: BudgetLimits;
+    paymentPolicy?: PaymentPolicy;
+    ledgerPath?: string | null; // JSONL ledger file, or null to keep history in memory only
   }) {
     this.x402Client = createX402Client({
-      privateKey: config.privateKey,
+      signer: config.signer,
       rpcUrl: config.rpcUrl,
     });
-    this.baseUrl = UNBROWSE_API_BASE_URL;
+    this.baseUrl = config.baseUrl || UNBROWSE_API_BASE_URL;
     this.timeout = config.timeout || 300000;
+    this.ledger = new PaymentLedger(config.ledgerPath ?? null);
+    this.budget = new PaymentBudget(config.budget);
+    this.paymentPolicy = config.paymentPolicy || {};
+
+    // Payments already made today count against the daily budget after a restart
+    const todayStart = Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`);
+    const spentToday = this.ledger
+      .query({ from: todayStart, wallet: this.getWalletAddress() })
+      .filter((record) => record.success)
+      .reduce((sum, record) => sum + Number(record.amount), 0);
+    this.budget.seedDailySpent(spentToday);
+
+    if (!this.paymentPolicy.allowedRecipients?.length) {
+      console.warn(`[x402] No recipient allowlist configured - only the platform wallets can be paid (set UNBROWSE_X402_ALLOWED_RECIPIENTS to allow more)`);
+    }
 
     console.error(`[x402 Client] Initialized with wallet: ${this.x402Client.getPublicKey()}`);
   }
@@ -719,11 +836,16 @@ export class UnbrowseX402Client {
 
   /**
    * Makes a request with x402 payment handling
-   * If server responds with 402, constructs payment and retries
+   * If server responds with 402, validates the requirement, checks the budget,
+   * constructs payment and retries
+   *
+   * @param payment.operation - Operation being paid for, which determines the expected price
+   * @param payment.abilityId - Ability being paid for, used for per-ability budget caps
    */
   private async fetchWithPayment(
     url: string,
-    options: RequestInit = {}
+    options: RequestInit,
+    payment: { operation: X402Operation; abilityId?: string },
   ): Promise<Response> {
     // First attempt without payment
     const response = await this.fetchWithTimeout(url, options);
@@ -746,6 +868,77 @@ export class UnbrowseX402Client {
     console.error(`[x402] Payment required: ${requirement.amountFormatted}`);
     console.error(`[x402] Chain: ${requirement.chain}, Mint: ${requirement.mint}`);
 
+    // Reject spoofed or unexpected requirements, then enforce spending limits,
+    // before anything is signed (throws PaymentPolicyError / BudgetExceededError)
+    validatePaymentRequirement(requirement, payment.operation, this.paymentPolicy);
+    this.lastRequirement = { chain: requirement.chain, seenAt: Date.now() };
+    const reservation = this.budget.reserve(Number(requirement.amount), payment.abilityId);
+
+    let retryResponse: Response;
+    for (let attempt = 1; ; attempt++) {
+      let paymentHeader: string;
+      try {
+        paymentHeader = await this.signPayment(requirement);
+      } catch (error) {
+        reservation.release();
+        throw error;
+      }
+
+      console.error(`[x402] Payment transaction created, retrying request with X-Payment header`);
+
+      // Retry with payment header. If this fails the payment may still settle,
+      // so the reservation is kept.
+      retryResponse = await this.fetchWithTimeout(url, {
+        ...options,
+        headers: {
+          ...options.headers,
+          'X-Payment': paymentHeader,
+        },
+      });
+
+      // A payment record collision means the transaction was rejected as a whole,
+      // so it is safe to sign again with a fresh nonce
+      if (retryResponse.ok || attempt >= MAX_NONCE_ATTEMPTS || !(await this.isNonceCollision(retryResponse))) {
+        break;
+      }
+      console.error(`[x402] Payment record already in use, re-signing with a new nonce (attempt ${attempt + 1}/${MAX_NONCE_ATTEMPTS})`);
+    }
+
+    // A second 402 means the payment was not accepted, so it does not count against the budget
+    if (retryResponse.status === 402) {
+      reservation.release();
+    }
+
+    // Log if payment was rejected
+    if (!retryResponse.ok) {
+      const errorClone = retryResponse.clone();
+      try {
+        const errorData = await errorClone.json();
+        console.error(`[x402] Payment rejected by server:`, JSON.stringify(errorData, null, 2));
+      } catch {
+        console.error(`[x402] Payment rejected with status: ${retryResponse.status} ${retryResponse.statusText}`);
+      }
+    }
+
+    return retryResponse;
+  }
+
+  /**
+   * Whether a failed paid request was rejected because its payment record PDA already existed
+   */
+  private async isNonceCollision(response: Response): Promise<boolean> {
+    try {
+      return isPaymentRecordCollision(await response.clone().text());
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks the wallet balance and signs a payment for a 402 requirement
+   * @returns The X-Payment header value
+   */
+  private async signPayment(requirement: PaymentRequirement): Promise<string> {
     // Check balance before attempting payment
     try {
       const balance = await this.x402Client.getUsdcBalance(requirement.chain, requirement.mint);
@@ -768,29 +961,7 @@ export class UnbrowseX402Client {
       throw new Error(`Payment failed: ${paymentResult.error}`);
     }
 
-    console.error(`[x402] Payment transaction created, retrying request with X-Payment header`);
-
-    // Retry with payment header
-    const retryResponse = await this.fetchWithTimeout(url, {
-      ...options,
-      headers: {
-        ...options.headers,
-        'X-Payment': paymentResult.paymentHeader!,
-      },
-    });
-
-    // Log if payment was rejected
-    if (!retryResponse.ok) {
-      const errorClone = retryResponse.clone();
-      try {
-        const errorData = await errorClone.json();
-        console.error(`[x402] Payment rejected by server:`, JSON.stringify(errorData, null, 2));
-      } catch {
-        console.error(`[x402] Payment rejected with status: ${retryResponse.status} ${retryResponse.statusText}`);
-      }
-    }
-
-    return retryResponse;
+    return paymentResult.paymentHeader!;
   }
 
   /**
@@ -799,27 +970,20 @@ export class UnbrowseX402Client {
    *
    * Cost: 0.1 cents per search in USDC on Solana
    */
-  async searchAbilities(query: string, limit: number = 12): Promise<{
-    success: boolean;
-    count: number;
-    query: string;
-    abilities: IndexedAbility[];
-    payment?: {
-      verified: boolean;
-      signature?: string;
-      type: string;
-    };
-  }> {
+  async searchAbilities(query: string, limit: number = 12, domains?: string[]): Promise<AbilitySearchResult> {
+    // The x402 endpoint cannot filter by domain: fetch the most results one
+    // payment allows and filter them here
+    const filterDomains = domains && domains.length > 0 ? domains : undefined;
     const params = new URLSearchParams({
       q: query,
-      top_k: String(Math.min(limit, 45))
+      top_k: String(filterDomains ? 45 : Math.min(limit, 45))
     });
 
     const url = `${this.baseUrl}/x402/abilities?${params}`;
-    console.error(`[x402] Searching abilities: "${query}"`);
+    console.error(`[x402] Searching abilities: "${query}"${filterDomains ? ` (filtering to ${filterDomains.join(', ')})` : ''}`);
 
     try {
-      const response = await this.fetchWithPayment(url);
+      const response = await this.fetchWithPayment(url, {}, { operation: 'search' });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -854,16 +1018,27 @@ export class UnbrowseX402Client {
         });
       }
 
+      let abilities: IndexedAbility[] = (data.results || []).map(transformAbilityResponse);
+      if (filterDomains) {
+        abilities = filterAbilitiesByDomain(abilities, filterDomains).slice(0, limit);
+      }
+
       return {
         success: data.success,
-        count: data.count,
+        count: filterDomains ? abilities.length : data.count,
         query: data.query,
-        abilities: (data.results || []).map(transformAbilityResponse),
+        abilities,
         payment: data.payment,
+        paidBy: this.mode,
+        domainFiltering: filterDomains ? { domains: filterDomains, appliedBy: 'client' } : undefined,
       };
     } catch (error: any) {
-      // Record failed payment if not already recorded
-      if (!error.message?.includes('Search failed')) {
+      // Record failed payment if not already recorded (budget and policy refusals never reached payment)
+      if (
+        !error.message?.includes('Search failed') &&
+        !(error instanceof BudgetExceededError) &&
+        !(error instanceof PaymentPolicyError)
+      ) {
         this.recordPayment({
           type: 'search',
           amount: '1000',
@@ -878,42 +1053,29 @@ export class UnbrowseX402Client {
     }
   }
 
+  /**
+   * Search public published abilities (public endpoint, no payment required)
+   * GET /public/abilities?q=<query>
+   */
+  async searchPublicAbilities(query: string, limit: number = 30, domains?: string[]): Promise<AbilitySearchResult> {
+    return searchPublicIndex(this.baseUrl, (url) => this.fetchWithTimeout(url), query, limit, domains);
+  }
+
   /**
    * Execute an ability using x402 paid endpoint
    * POST /x402/abilities/execute
    *
    * Cost: 0.5 cents per execution in USDC on Solana
    * Payment is split: 20% platform, 80% ability owner
+   *
+   * options.credentials (dynamic header key -> value) are sent with the request;
+   * options.credentialKey is ignored (there are no stored credentials in x402 mode)
    */
   async executeAbility(
     abilityId: string,
     params: Record<string, any>,
-    options: {
-      transformCode?: string;
-    } = {}
-  ): Promise<{
-    success: boolean;
-    result?: {
-      statusCode: number;
-      abilityName: string;
-      domain: string;
-      body: any;
-      headers: Record<string, string>;
-      executedAt: string;
-      executionTimeMs?: number;
-    };
-    health?: {
-      score: number;
-      totalExecutions: number;
-      successRate: string;
-    };
-    error?: string;
-    payment?: {
-      verified: boolean;
-      signature?: string;
-      type: string;
-    };
-  }> {
+    options: AbilityExecuteOptions = {}
+  ): Promise<AbilityExecutionResult> {
     const url = `${this.baseUrl}/x402/abilities/execute`;
 
     console.error(`[x402] Executing ability: ${abilityId}`);
@@ -922,6 +1084,7 @@ export class UnbrowseX402Client {
       abilityId,
       params,
       transformCode: options.transformCode,
+      credentials: options.credentials,
     };
 
     try {
@@ -931,7 +1094,7 @@ export class UnbrowseX402Client {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
-      });
+      }, { operation: 'execute', abilityId });
 
       const responseText = await response.text();
 
@@ -987,10 +1150,15 @@ export class UnbrowseX402Client {
         });
       }
 
-      return data;
+      return { ...data, paidBy: this.mode };
     } catch (error: any) {
-      // Record failed payment if not already recorded
-      if (!error.message?.includes('Failed to execute') && !error.message?.includes('non-JSON')) {
+      // Record failed payment if not already recorded (budget and policy refusals never reached payment)
+      if (
+        !error.message?.includes('Failed to execute') &&
+        !error.message?.includes('non-JSON') &&
+        !(error instanceof BudgetExceededError) &&
+        !(error instanceof PaymentPolicyError)
+      ) {
         this.recordPayment({
           type: 'execute',
           abilityId,
@@ -1010,11 +1178,7 @@ export class UnbrowseX402Client {
    * Get ability details by ID (public endpoint, no payment required)
    * GET /abilities/:abilityId
    */
-  async getAbility(abilityId: string): Promise<{
-    success: boolean;
-    ability: IndexedAbility;
-    wrapper: any;
-  }> {
+  async getAbility(abilityId: string): Promise<AbilityDetailsResult> {
     const url = `${this.baseUrl}/abilities/${encodeURIComponent(abilityId)}`;
     const response = await this.fetchWithTimeout(url);
 
@@ -1034,18 +1198,62 @@ export class UnbrowseX402Client {
     };
   }
 
+  /**
+   * Not available: the account's ability lists need an API key or session token
+   */
+  async listAbilities(): Promise<AbilityListResult> {
+    throw new UnsupportedOperationError('Listing your abilities', this.mode);
+  }
+
+  /**
+   * Not available: indexing new APIs needs an API key or session token
+   */
+  async ingestApiEndpoint(): Promise<IngestResult> {
+    throw new UnsupportedOperationError('API ingestion', this.mode);
+  }
+
+  /**
+   * Chain payments are made on: the chain of the last accepted payment requirement,
+   * or mainnet (the server's default) before any payment has been requested
+   */
+  getPaymentChain(): { chain: 'devnet' | 'mainnet-beta'; source: 'last_payment_requirement' | 'default' } {
+    return this.lastRequirement
+      ? { chain: this.lastRequirement.chain, source: 'last_payment_requirement' }
+      : { chain: 'mainnet-beta', source: 'default' };
+  }
+
+  /**
+   * Kind of signer holding the wallet key
+   */
+  getSignerKind(): PaymentSigner["kind"] {
+    return this.x402Client.getSignerKind();
+  }
+
+  /**
+   * Check SOL balance for current wallet (pays transaction fees)
+   * @returns null if the RPC could not be reached
+   */
+  async getSolBalance(chain: 'devnet' | 'mainnet-beta' = this.getPaymentChain().chain): Promise<{
+    balance: string;
+    balanceFormatted: string;
+  } | null> {
+    const lamports = await this.x402Client.getSolBalance(chain);
+    if (lamports === null) return null;
+    return {
+      balance: lamports.toString(),
+      balanceFormatted: `${(Number(lamports) / 1_000_000_000).toFixed(9)} SOL`,
+    };
+  }
+
   /**
    * Check USDC balance for current wallet
+   * @param chain - Defaults to the chain payments are being made on (see getPaymentChain)
    */
-  async getBalance(chain: 'devnet' | 'mainnet-beta' = 'devnet'): Promise<{
+  async getBalance(chain: 'devnet' | 'mainnet-beta' = this.getPaymentChain().chain): Promise<{
     balance: string;
     balanceFormatted: string;
   }> {
-    // Get USDC mint from the first 402 response or use default
-    const USDC_MINT_DEVNET = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
-    const USDC_MINT_MAINNET = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-
-    const mint = chain === 'devnet' ? USDC_MINT_DEVNET : USDC_MINT_MAINNET;
+    const mint = USDC_MINTS[chain];
     const balance = await this.x402Client.getUsdcBalance(chain, mint);
 
     // Format: USDC has 6 decimals
@@ -1064,19 +1272,15 @@ export class UnbrowseX402Client {
   /**
    * Record a payment for tracking
    */
-  private recordPayment(record: Omit<PaymentRecord, 'id' | 'timestamp'>): PaymentRecord {
+  private recordPayment(record: Omit<PaymentRecord, 'id' | 'timestamp' | 'wallet'>): PaymentRecord {
     const fullRecord: PaymentRecord = {
       ...record,
       id: `pay_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
       timestamp: Date.now(),
+      wallet: this.getWalletAddress(),
     };
 
-    this.paymentHistory.push(fullRecord);
-
-    // Keep only last 1000 payments in memory
-    if (this.paymentHistory.length > 1000) {
-      this.paymentHistory = this.paymentHistory.slice(-1000);
-    }
+    this.ledger.append(fullRecord);
 
     console.error(`[x402] Payment recorded: ${record.type} - ${record.amountFormatted} - ${record.verified ? 'verified' : 'pending'}`);
 
@@ -1084,25 +1288,30 @@ export class UnbrowseX402Client {
   }
 
   /**
-   * Get payment history
+   * Get payment history for this wallet
    * @param limit - Maximum number of records to return (default: 50)
    * @param type - Filter by payment type ('search' or 'execute')
+   * @param range - Optional date range (epoch milliseconds, inclusive)
    */
-  getPaymentHistory(limit: number = 50, type?: 'search' | 'execute'): PaymentRecord[] {
-    let records = [...this.paymentHistory].reverse(); // Most recent first
-
-    if (type) {
-      records = records.filter(r => r.type === type);
-    }
-
-    return records.slice(0, limit);
+  getPaymentHistory(
+    limit: number = 50,
+    type?: 'search' | 'execute',
+    range: Pick<PaymentQuery, 'from' | 'to'> = {},
+  ): PaymentRecord[] {
+    return this.ledger
+      .query({ ...range, type, wallet: this.getWalletAddress() })
+      .reverse() // Most recent first
+      .slice(0, limit);
   }
 
   /**
-   * Get payment summary statistics
+   * Get payment summary statistics for this wallet
+   * @param range - Optional date range (epoch milliseconds, inclusive)
    */
-  getPaymentSummary(): PaymentSummary {
-    const successfulPayments = this.paymentHistory.filter(p => p.success);
+  getPaymentSummary(range: Pick<PaymentQuery, 'from' | 'to'> = {}): PaymentSummary {
+    const successfulPayments = this.ledger
+      .query({ ...range, wallet: this.getWalletAddress() })
+      .filter(p => p.success);
 
     const searchPayments = successfulPayments.filter(p => p.type === 'search');
     const executePayments = successfulPayments.filter(p => p.type === 'execute');
@@ -1119,26 +1328,88 @@ export class UnbrowseX402Client {
       searchSpentCents,
       executeCount: executePayments.length,
       executeSpentCents,
-      recentPayments: this.getPaymentHistory(10),
+      recentPayments: this.getPaymentHistory(10, undefined, range),
+    };
+  }
+
+  /**
+   * Export this wallet's payments as CSV
+   * @param range - Optional date range (epoch milliseconds, inclusive)
+   */
+  exportPaymentsCsv(range: Pick<PaymentQuery, 'from' | 'to'> = {}): string {
+    return this.ledger.exportCsv({ ...range, wallet: this.getWalletAddress() });
+  }
+
+  /**
+   * Path of the on-disk payment ledger, or null if history is kept in memory
+   */
+  getLedgerPath(): string | null {
+    return this.ledger.getPath();
+  }
+
+  /**
+   * Projects the cost of a batch of paid requests against the wallet balance and budget.
+   * Nothing is reserved or signed.
+   *
+   * @param payments - One entry per request in the batch
+   * @param options.includeBalance - Look up the USDC balance (one RPC call). Default: true
+   */
+  async estimateCost(
+    payments: Array<{ operation: X402Operation; abilityId?: string }>,
+    options: { includeBalance?: boolean } = {},
+  ): Promise<CostEstimate> {
+    const amounts = payments.map(({ operation, abilityId }) => ({ amount: Number(X402_PRICES[operation]), abilityId }));
+    const projectedUnits = amounts.reduce((sum, { amount }) => sum + amount, 0);
+    const exceeded = this.budget.preview(amounts);
+
+    const estimate: CostEstimate = {
+      searches: payments.filter((p) => p.operation === 'search').length,
+      executions: payments.filter((p) => p.operation === 'execute').length,
+      projectedCost: `${(projectedUnits / 1_000_000).toFixed(6)} USDC`,
+      projectedUsdc: projectedUnits / 1_000_000,
+      projectedCents: projectedUnits / 10_000,
+      budget: {
+        withinBudget: exceeded === null,
+        ...(exceeded ? { exceeded } : {}),
+        ...this.getBudgetStatus(),
+      },
     };
+
+    if (options.includeBalance ?? true) {
+      const { chain } = this.getPaymentChain();
+      const balance = await this.getBalance(chain);
+      estimate.balance = { chain, ...balance, sufficient: BigInt(balance.balance) >= BigInt(projectedUnits) };
+    }
+
+    return estimate;
   }
 
   /**
-   * Clear payment history
+   * Get budget limits, spending and remaining budget
    */
-  clearPaymentHistory(): void {
-    this.paymentHistory = [];
-    console.error('[x402] Payment history cleared');
+  getBudgetStatus(): BudgetStatus & { limited: boolean } {
+    return { limited: this.budget.hasLimits(), ...this.budget.getStatus() };
   }
 }
 
 /**
  * Create an x402 payment-based API client
- * @param privateKey - Base58 encoded Solana private key
+ * @param signer - Payment signer, or a base58 encoded Solana private key
  * @param rpcUrl - Optional custom RPC URL
+ * @param options.budget - Optional spending limits enforced before payments are signed
+ * @param options.paymentPolicy - Rules 402 payment requirements must satisfy before signing
+ * @param options.ledgerPath - JSONL payment ledger file, or null to keep history in memory only
  */
-export function createX402ApiClient(privateKey: string, rpcUrl?: string): UnbrowseX402Client {
-  return new UnbrowseX402Client({ privateKey, rpcUrl });
+export function createX402ApiClient(
+  signer: PaymentSigner | string,
+  rpcUrl?: string,
+  options: { baseUrl?: string; budget?: BudgetLimits; paymentPolicy?: PaymentPolicy; ledgerPath?: string | null } = {},
+): UnbrowseX402Client {
+  return new UnbrowseX402Client({
+    signer: typeof signer === "string" ? KeypairSigner.fromBase58(signer) : signer,
+    rpcUrl,
+    ...options,
+  });
 }
 
 /**
@@ -0,0 +1,504 @@
+/**
+ * Terminal Commands - Use Unbrowse Without an MCP Client
+ *
+ * Each command loads the same config as the servers (config file profile and
+ * environment variables), talks to the Unbrowse API through the existing
+ * clients and prints a table, or the raw result with --json.
+ *
+ * Usage:
+ *   unbrowse-mcp search <query> [--limit <n>] [--domain <domain>] [--public]
+ *   unbrowse-mcp exec <abilityId> [--params '<json>']
+ *   unbrowse-mcp ability <abilityId>
+ *   unbrowse-mcp ingest <url-or-curl> --service <name> [--name <abilityName>] [--description <text>]
+ *   unbrowse-mcp credentials list [domain]
+ *   unbrowse-mcp credentials set <domain> <key>=<value>...
+ *   unbrowse-mcp credentials rm <domain> | --id <credentialId>
+ *   unbrowse-mcp payments [--limit <n>] [--type search|execute] [--from <date>] [--to <date>] [--csv]
+ *   unbrowse-mcp wallet [--chain devnet|mainnet-beta]
+ *
+ * Every command accepts --json, --profile <name>, --config <path> and
+ * --verbose (show client logs on stderr).
+ */
+
+import {
+  createApiClient,
+  createX402ApiClient,
+  type IndexedAbility,
+  type UnbrowseApiClient,
+  type UnbrowseX402Client,
+} from "./api-client.js";
+import { FallbackBackend, selectAuthMode, type AbilityBackend } from "./ability-backend.js";
+import { ConfigError, hasAuthConfig, loadConfig, type ServerConfig } from "./config-loader.js";
+import { decryptData, encryptCredentialValue, maskSecret } from "./crypto-utils.js";
+import { parseDateBound, resolveLedgerPath } from "./payment-ledger.js";
+import { createPaymentSigner } from "./payment-signer.js";
+import { USDC_MINTS, X402_PRICES } from "./x402-solana.js";
+
+export const CLI_COMMANDS = ["search", "exec", "ability", "ingest", "credentials", "payments", "wallet"];
+
+const BOOLEAN_FLAGS = new Set(["--json", "--public", "--csv", "--verbose"]);
+
+/**
+ * Thrown for invalid command line usage (exit code 2)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string[]>; // Option name (without --) -> values, in order
+  flags: Set<string>; // Boolean flags (without --)
+}
+
+/**
+ * Splits arguments into positionals, `--name value` options and boolean flags
+ */
+function parseArgs(args: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], options: {}, flags: new Set() };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (BOOLEAN_FLAGS.has(arg)) {
+      parsed.flags.add(arg.slice(2));
+    } else if (arg.startsWith("--") && arg.length > 2) {
+      const value = args[i + 1];
+      if (value === undefined) throw new UsageError(`Missing value for ${arg}`);
+      (parsed.options[arg.slice(2)] ??= []).push(value);
+      i++;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+const out = (line: string = "") => process.stdout.write(line + "\n");
+
+/**
+ * Prints rows as an aligned table. Cells are cut at `maxWidth` characters.
+ */
+function printTable(headers: string[], rows: Array<Array<string | number | null | undefined>>, maxWidth: number = 60): void {
+  const cells = [headers, ...rows.map((row) => row.map((cell) => {
+    const text = cell === null || cell === undefined ? "-" : String(cell).replace(/\s+/g, " ");
+    return text.length > maxWidth ? `${text.slice(0, maxWidth - 1)}…` : text;
+  }))];
+  const widths = headers.map((_, column) => Math.max(...cells.map((row) => (row[column] || "").length)));
+  for (const row of cells) {
+    out(row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+  }
+}
+
+/**
+ * Prints `label: value` pairs with aligned values
+ */
+function printFields(fields: Array<[string, string | number | boolean | null | undefined]>): void {
+  const width = Math.max(...fields.map(([label]) => label.length));
+  for (const [label, value] of fields) {
+    out(`${`${label}:`.padEnd(width + 1)} ${value === null || value === undefined || value === "" ? "-" : value}`);
+  }
+}
+
+export interface CliClients {
+  config: ServerConfig;
+  apiClient: UnbrowseApiClient | null;
+  x402Client: UnbrowseX402Client | null;
+  backend: AbilityBackend;
+}
+
+/**
+ * Creates the clients for the configured auth mode, the same way the server does
+ * (API key or session token first, x402 alone or as the fallback)
+ */
+export function createClients(config: ServerConfig): CliClients {
+  const authToken = config.apiKey || config.sessionToken;
+  const selection = selectAuthMode({
+    apiKey: config.apiKey,
+    sessionToken: config.sessionToken,
+    hasPaymentSigner: !!(config.solanaPrivateKey || config.solanaKeypairPath || config.x402SignerCommand),
+    x402Fallback: config.x402Fallback,
+  });
+  const apiClient = authToken ? createApiClient(authToken, config.apiBaseUrl) : null;
+
+  let x402Client: UnbrowseX402Client | null = null;
+  if (selection?.mode === "x402" || selection?.x402Fallback) {
+    const signer = createPaymentSigner({
+      privateKey: config.solanaPrivateKey,
+      keypairPath: config.solanaKeypairPath,
+      signerCommand: config.x402SignerCommand,
+      signerPublicKey: config.x402SignerPublicKey,
+    })!;
+    x402Client = createX402ApiClient(signer, config.solanaRpcUrl, {
+      baseUrl: config.apiBaseUrl,
+      budget: {
+        perCallUsdc: config.x402MaxPerCallUsdc,
+        sessionUsdc: config.x402SessionBudgetUsdc,
+        dailyUsdc: config.x402DailyBudgetUsdc,
+        perAbilityUsdc: config.x402PerAbilityBudgetUsdc,
+        abilityUsdc: config.x402AbilityBudgets,
+      },
+      paymentPolicy: { allowedRecipients: config.x402AllowedRecipients, allowMainnet: config.x402AllowMainnet },
+      ledgerPath: resolveLedgerPath(config.x402LedgerPath),
+    });
+  }
+
+  const backend: AbilityBackend = apiClient
+    ? (x402Client ? new FallbackBackend(apiClient, x402Client) : apiClient)
+    : x402Client!;
+  return { config, apiClient, x402Client, backend };
+}
+
+type CommandHandler = (args: ParsedArgs, clients: CliClients, json: boolean) => Promise<boolean>;
+
+const printAbilities = (abilities: IndexedAbility[]) => {
+  printTable(
+    ["ID", "NAME", "DOMAIN", "HEALTH", "DESCRIPTION"],
+    abilities.map((ability) => [ability.ability_id, ability.ability_name, ability.domain, ability.health_score, ability.description]),
+  );
+};
+
+const commands: Record<string, CommandHandler> = {
+  async search({ positional, options, flags }, { backend }, json) {
+    const query = positional.join(" ").trim();
+    if (!query) throw new UsageError("Usage: unbrowse-mcp search <query> [--limit <n>] [--domain <domain>] [--public]");
+    const limit = options.limit ? Number(options.limit[0]) : undefined;
+    const domains = options.domain?.flatMap((value) => value.split(",")).map((domain) => domain.trim()).filter(Boolean);
+
+    const result = flags.has("public")
+      ? await backend.searchPublicAbilities(query, limit, domains)
+      : await backend.searchAbilities(query, limit, domains);
+
+    if (json) {
+      out(JSON.stringify(result, null, 2));
+    } else {
+      printAbilities(result.abilities);
+      out();
+      out(`${result.abilities.length} abilit${result.abilities.length === 1 ? "y" : "ies"} for "${query}"${result.paidBy ? ` (paid by ${result.paidBy}${result.cost ? `, ${result.cost}` : ""})` : ""}`);
+    }
+    return result.success;
+  },
+
+  async exec({ positional, options }, { backend, config }, json) {
+    const [abilityId] = positional;
+    if (!abilityId) throw new UsageError("Usage: unbrowse-mcp exec <abilityId> [--params '<json>']");
+
+    let params: Record<string, any> = {};
+    if (options.params) {
+      try {
+        params = JSON.parse(options.params[0]);
+      } catch (error: any) {
+        throw new UsageError(`--params is not valid JSON: ${error.message}`);
+      }
+    }
+
+    const result = await backend.executeAbility(abilityId, params, { credentialKey: config.password });
+
+    if (json) {
+      out(JSON.stringify(result, null, 2));
+    } else if (result.success && result.result) {
+      printFields([
+        ["Ability", result.result.abilityName || abilityId],
+        ["Status", result.result.statusCode],
+        ["Time", result.result.executionTimeMs !== undefined ? `${result.result.executionTimeMs} ms` : undefined],
+        ["Paid by", result.paidBy],
+      ]);
+      out();
+      const body = result.result.body;
+      out(typeof body === "string" ? body : JSON.stringify(body, null, 2));
+    } else {
+      process.stderr.write(`Execution failed: ${result.error || "unknown error"}\n`);
+      if (result.credentialsExpired) {
+        process.stderr.write("Credentials for this ability have expired. Update them with `unbrowse-mcp credentials set`.\n");
+      }
+      for (const login of result.loginAbilities || []) {
+        process.stderr.write(`  Login ability: ${login.id} (${login.name})\n`);
+      }
+    }
+    return result.success;
+  },
+
+  async ability({ positional }, { backend }, json) {
+    const [abilityId] = positional;
+    if (!abilityId) throw new UsageError("Usage: unbrowse-mcp ability <abilityId>");
+
+    const result = await backend.getAbility(abilityId);
+    if (json) {
+      out(JSON.stringify(result, null, 2));
+      return result.success;
+    }
+
+    const { ability } = result;
+    printFields([
+      ["ID", ability.ability_id],
+      ["Name", ability.ability_name],
+      ["Service", ability.service_name],
+      ["Domain", ability.domain],
+      ["Request", ability.request_method ? `${ability.request_method} ${ability.request_url || ""}` : undefined],
+      ["Health", ability.health_score],
+      ["Credentials", ability.requires_dynamic_headers ? ability.dynamic_header_keys.join(", ") : "none"],
+      ["Description", ability.description],
+    ]);
+
+    const properties = Object.entries((ability.input_schema?.properties || {}) as Record<string, any>);
+    if (properties.length > 0) {
+      const required = new Set<string>(ability.input_schema?.required || []);
+      out();
+      printTable(
+        ["PARAMETER", "TYPE", "REQUIRED", "DESCRIPTION"],
+        properties.map(([name, schema]) => [name, schema?.type, required.has(name) ? "yes" : "no", schema?.description]),
+      );
+    }
+    return result.success;
+  },
+
+  async ingest({ positional, options }, { backend }, json) {
+    const input = positional.join(" ").trim();
+    const serviceName = options.service?.[0];
+    if (!input || !serviceName) {
+      throw new UsageError("Usage: unbrowse-mcp ingest <url-or-curl> --service <name> [--name <abilityName>] [--description <text>]");
+    }
+    if (!backend.capabilities.ingest) {
+      throw new Error(`Ingesting APIs is not available in ${backend.mode} mode (it needs an API key or session token)`);
+    }
+
+    const result = await backend.ingestApiEndpoint({
+      input,
+      serviceName,
+      abilityName: options.name?.[0],
+      description: options.description?.[0],
+    });
+
+    if (json) {
+      out(JSON.stringify(result, null, 2));
+    } else {
+      printFields([
+        ["Ability ID", result.ability_id],
+        ["Name", result.ability_name],
+        ["Message", result.message],
+      ]);
+    }
+    return result.success;
+  },
+
+  async credentials({ positional, options }, { apiClient, config }, json) {
+    const [action, ...rest] = positional;
+    const usage = "Usage: unbrowse-mcp credentials list [domain] | set <domain> <key>=<value>... | rm <domain> | rm --id <credentialId>";
+    if (!apiClient) {
+      throw new Error("Stored credentials need an API key or session token");
+    }
+
+    if (action === "list") {
+      const [domain] = rest;
+      const listed = domain
+        ? (await apiClient.getCredentialsForDomain(domain)).credentials
+        : (await apiClient.listCredentials(true)).credentials;
+      // Grouped listings are keyed by domain
+      const credentials: any[] = Array.isArray(listed)
+        ? listed
+        : Object.entries(listed || {}).flatMap(([group, entries]) =>
+          (Array.isArray(entries) ? entries : []).map((entry: any) => ({ domain: group, ...entry })));
+
+      // Stored values are never printed, only a masked preview
+      const rows = credentials.map(({ encryptedValue, value, ...credential }) => {
+        const stored: string | undefined = encryptedValue ?? value;
+        let preview = "[encrypted]";
+        if (typeof stored === "string") {
+          let encrypted: any = null;
+          try {
+            const parsed = JSON.parse(stored);
+            if (parsed?.ciphertext && parsed?.iv) encrypted = parsed;
+          } catch {
+            // Plain text value
+          }
+          if (!encrypted) {
+            preview = maskSecret(stored);
+          } else if (config.password) {
+            try {
+              preview = maskSecret(decryptData(encrypted, config.password));
+            } catch {
+              preview = "[wrong password]";
+            }
+          }
+        }
+        return { ...credential, domain: credential.domain ?? domain, maskedValue: preview };
+      });
+
+      if (json) {
+        out(JSON.stringify({ success: true, count: rows.length, credentials: rows }, null, 2));
+      } else {
+        printTable(
+          ["ID", "DOMAIN", "KEY", "TYPE", "VALUE", "CREATED"],
+          rows.map((row) => [row.credentialId, row.domain, row.credentialKey, row.credentialType, row.maskedValue, row.createdAt]),
+        );
+      }
+      return true;
+    }
+
+    if (action === "set") {
+      const [domain, ...pairs] = rest;
+      if (!domain || pairs.length === 0) throw new UsageError(usage);
+      if (!config.password) {
+        throw new Error("A password is required to encrypt credentials. Set UNBROWSE_PASSWORD or a password source in your profile.");
+      }
+
+      const credentials = pairs.map((pair) => {
+        const separator = pair.indexOf("=");
+        if (separator <= 0) throw new UsageError(`Expected <key>=<value>, got: ${pair}`);
+        const key = pair.slice(0, separator);
+        return {
+          type: "header",
+          key: key.includes("::") ? key : `${domain}::${key}`,
+          encryptedValue: encryptCredentialValue(pair.slice(separator + 1), config.password!),
+        };
+      });
+
+      const result = await apiClient.storeCredentials(domain, credentials);
+      if (json) {
+        out(JSON.stringify({ success: result.success, domain, count: result.count ?? credentials.length, keys: credentials.map((c) => c.key) }, null, 2));
+      } else {
+        out(`Stored ${credentials.length} credential${credentials.length === 1 ? "" : "s"} for ${domain}: ${credentials.map((c) => c.key).join(", ")}`);
+      }
+      return result.success;
+    }
+
+    if (action === "rm") {
+      const [domain] = rest;
+      const credentialId = options.id?.[0];
+      if (!domain && !credentialId) throw new UsageError(usage);
+
+      const result = credentialId
+        ? await apiClient.deleteCredentialById(credentialId)
+        : await apiClient.deleteCredentialsForDomain(domain);
+      if (json) {
+        out(JSON.stringify(result, null, 2));
+      } else {
+        out(credentialId
+          ? `Deleted credential ${credentialId}`
+          : `Deleted ${(result as { deletedCount?: number }).deletedCount ?? 0} credentials for ${domain}`);
+      }
+      return result.success;
+    }
+
+    throw new UsageError(usage);
+  },
+
+  async payments({ options, flags }, { x402Client }, json) {
+    if (!x402Client) throw new Error("Payment history needs an x402 wallet (SOLANA_PRIVATE_KEY, SOLANA_KEYPAIR_PATH or UNBROWSE_X402_SIGNER_COMMAND)");
+
+    const type = options.type?.[0];
+    if (type && type !== "search" && type !== "execute") throw new UsageError("--type must be 'search' or 'execute'");
+    const range = { from: parseDateBound(options.from?.[0], "from"), to: parseDateBound(options.to?.[0], "to") };
+
+    if (flags.has("csv")) {
+      process.stdout.write(x402Client.exportPaymentsCsv(range));
+      return true;
+    }
+
+    const payments = x402Client.getPaymentHistory(Math.min(Number(options.limit?.[0] || 20), 100), type as "search" | "execute" | undefined, range);
+    const summary = x402Client.getPaymentSummary(range);
+    if (json) {
+      const { recentPayments, ...totals } = summary;
+      out(JSON.stringify({ success: true, walletAddress: x402Client.getWalletAddress(), ledgerPath: x402Client.getLedgerPath(), payments, summary: totals, budget: x402Client.getBudgetStatus() }, null, 2));
+      return true;
+    }
+
+    printTable(
+      ["TIME", "TYPE", "ABILITY", "AMOUNT", "STATUS", "SIGNATURE"],
+      payments.map((payment) => [
+        new Date(payment.timestamp).toISOString(),
+        payment.type,
+        payment.abilityName || payment.abilityId,
+        payment.amountFormatted,
+        payment.success ? (payment.verified ? "verified" : "pending") : `failed${payment.error ? `: ${payment.error}` : ""}`,
+        payment.signature,
+      ]),
+    );
+    out();
+    out(`${summary.totalPayments} successful payments, ${summary.totalSpentFormatted} ` +
+      `(${summary.searchCount} searches, ${summary.executeCount} executions)`);
+    return true;
+  },
+
+  async wallet({ options }, { x402Client }, json) {
+    if (!x402Client) throw new Error("No x402 wallet configured (SOLANA_PRIVATE_KEY, SOLANA_KEYPAIR_PATH or UNBROWSE_X402_SIGNER_COMMAND)");
+
+    const requestedChain = options.chain?.[0];
+    if (requestedChain && requestedChain !== "devnet" && requestedChain !== "mainnet-beta") {
+      throw new UsageError("--chain must be 'devnet' or 'mainnet-beta'");
+    }
+    const chain = (requestedChain as "devnet" | "mainnet-beta" | undefined) ?? x402Client.getPaymentChain().chain;
+    const [usdc, sol] = await Promise.all([x402Client.getBalance(chain), x402Client.getSolBalance(chain)]);
+    const units = BigInt(usdc.balance);
+    const wallet = {
+      success: true,
+      walletAddress: x402Client.getWalletAddress(),
+      signer: x402Client.getSignerKind(),
+      chain,
+      usdc: { ...usdc, mint: USDC_MINTS[chain] },
+      sol,
+      affordable: {
+        executions: Number(units / X402_PRICES.execute),
+        searches: Number(units / X402_PRICES.search),
+      },
+      ledgerPath: x402Client.getLedgerPath(),
+    };
+
+    if (json) {
+      out(JSON.stringify(wallet, null, 2));
+    } else {
+      printFields([
+        ["Address", wallet.walletAddress],
+        ["Signer", wallet.signer],
+        ["Chain", chain],
+        ["USDC", usdc.balanceFormatted],
+        ["SOL", sol ? sol.balanceFormatted : "unavailable (RPC unreachable)"],
+        ["Covers", `${wallet.affordable.executions} executions or ${wallet.affordable.searches} searches`],
+        ["Ledger", wallet.ledgerPath ?? "in memory"],
+      ]);
+    }
+    return true;
+  },
+};
+
+/**
+ * Runs a terminal command
+ * @returns Process exit code (0 success, 1 failure, 2 usage error)
+ */
+export async function runCliCommand(command: string, args: string[]): Promise<number> {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs(args);
+  } catch (error: any) {
+    process.stderr.write(`${error.message}\n`);
+    return 2;
+  }
+  const json = parsed.flags.has("json");
+
+  // Client logs go to stderr; keep them out of the way unless asked for
+  const { error: logError, warn: logWarn } = console;
+  if (!parsed.flags.has("verbose")) {
+    console.error = () => {};
+    console.warn = () => {};
+  }
+
+  try {
+    const { config } = loadConfig(args);
+    if (!hasAuthConfig(config)) {
+      throw new ConfigError("Authentication required: set UNBROWSE_API_KEY, UNBROWSE_SESSION_TOKEN or an x402 wallet, or select a profile with --profile");
+    }
+    const succeeded = await commands[command](parsed, createClients(config), json);
+    return succeeded ? 0 : 1;
+  } catch (error: any) {
+    if (json) {
+      out(JSON.stringify({ success: false, error: error.message || String(error) }, null, 2));
+    } else {
+      process.stderr.write(`${error instanceof ConfigError ? "Configuration error" : "Error"}: ${error.message || error}\n`);
+    }
+    return error instanceof UsageError ? 2 : 1;
+  } finally {
+    console.error = logError;
+    console.warn = logWarn;
+  }
+}
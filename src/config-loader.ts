@@ -0,0 +1,291 @@
+/**
+ * Server Config Loader
+ *
+ * Every entry point (stdio, HTTP) builds its createServer config here, from
+ * three layers, later ones overriding earlier ones:
+ *   1. Top-level settings of the config file
+ *   2. The selected profile of the config file (--profile or UNBROWSE_PROFILE,
+ *      otherwise the file's defaultProfile)
+ *   3. Environment variables
+ *
+ * The config file is ~/.config/unbrowse/config.json (or config.yaml / config.yml),
+ * or the file named by --config or UNBROWSE_CONFIG. Its settings use the
+ * configSchema names, plus passwordEnv / passwordCommand as password sources:
+ *
+ *   defaultProfile: work
+ *   profiles:
+ *     work:
+ *       apiKey: re_xxx
+ *       passwordCommand: pass show unbrowse
+ *       executionMode: local
+ *     wallet:
+ *       solanaKeypairPath: ~/.unbrowse/wallet.json
+ *       x402DailyBudgetUsdc: 1
+ */
+
+import { execSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { extname, join, resolve } from "path";
+import { isDeepStrictEqual } from "util";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { configSchema } from "./config-schema.js";
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+const profileSchema = configSchema.partial().extend({
+  passwordEnv: z.string().optional().describe("Environment variable holding the credential decryption password"),
+  passwordCommand: z.string().optional().describe("Command printing the credential decryption password (e.g. a password manager)"),
+}).strict();
+
+const configFileSchema = profileSchema.extend({
+  defaultProfile: z.string().optional().describe("Profile used when none is selected"),
+  profiles: z.record(profileSchema).default({}),
+}).strict();
+
+type ProfileSettings = z.infer<typeof profileSchema>;
+
+/**
+ * Thrown for a config file, profile or environment variable that cannot be used
+ */
+export class ConfigError extends Error {
+  readonly code = "INVALID_CONFIG";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+export interface LoadedConfig {
+  config: ServerConfig;
+  path?: string; // Config file that was read, if any
+  profile?: string; // Profile that was applied, if any
+}
+
+/**
+ * Config files looked up when neither --config nor UNBROWSE_CONFIG is set
+ */
+export function defaultConfigPaths(env: NodeJS.ProcessEnv = process.env): string[] {
+  const configDir = join(env.XDG_CONFIG_HOME || join(homedir(), ".config"), "unbrowse");
+  return ["config.json", "config.yaml", "config.yml"].map((name) => join(configDir, name));
+}
+
+/**
+ * Value of a `--name value` command line option
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+const expandHome = (path: string): string => resolve(path.replace(/^~(?=$|[\\/])/, homedir()));
+
+/**
+ * Reads and validates a config file (JSON, or YAML for .yaml / .yml)
+ */
+function readConfigFile(path: string): z.infer<typeof configFileSchema> {
+  let raw: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    raw = [".yaml", ".yml"].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigError(`Failed to read config file ${path}: ${error.message || error}`);
+  }
+
+  const parsed = configFileSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    throw new ConfigError(`Invalid config file ${path}:\n${issues.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Loads the server config from the config file, the selected profile and
+ * environment variables, validated against configSchema
+ *
+ * @param args - Command line arguments (--config <path>, --profile <name>)
+ */
+export function loadConfig(args: string[] = [], env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const explicitPath = getOption(args, "--config") || env.UNBROWSE_CONFIG;
+  const path = explicitPath ? expandHome(explicitPath) : defaultConfigPaths(env).find((candidate) => existsSync(candidate));
+  if (explicitPath && !existsSync(path!)) {
+    throw new ConfigError(`Config file not found: ${path}`);
+  }
+
+  const file = path ? readConfigFile(path) : undefined;
+  const { profiles = {}, defaultProfile, ...fileSettings } = file || {};
+
+  const profile = getOption(args, "--profile") || env.UNBROWSE_PROFILE || defaultProfile;
+  if (profile && !profiles[profile]) {
+    const available = Object.keys(profiles);
+    throw new ConfigError(
+      path
+        ? `Unknown profile "${profile}" in ${path} (available: ${available.length > 0 ? available.join(", ") : "none"})`
+        : `Profile "${profile}" selected, but no config file was found (looked for ${defaultConfigPaths(env).join(", ")})`,
+    );
+  }
+
+  const settings: ProfileSettings = { ...fileSettings, ...(profile ? profiles[profile] : {}) };
+  for (const [key, value] of Object.entries(configFromEnv(env))) {
+    if (value !== undefined) (settings as Record<string, unknown>)[key] = value;
+  }
+
+  const { passwordEnv, passwordCommand, ...serverSettings } = settings;
+  if (!serverSettings.password) {
+    serverSettings.password = resolvePassword(passwordEnv, passwordCommand, env);
+  }
+
+  const parsed = configSchema.safeParse(serverSettings);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`);
+    throw new ConfigError(`Invalid configuration${profile ? ` (profile "${profile}")` : ""}:\n${issues.join("\n")}`);
+  }
+
+  if (path) {
+    console.error(`[INFO] Config file: ${path}${profile ? ` (profile "${profile}")` : ""}`);
+  }
+  return { config: parsed.data, path, profile };
+}
+
+/**
+ * Password from the profile's password source, if it has one
+ */
+function resolvePassword(passwordEnv: string | undefined, passwordCommand: string | undefined, env: NodeJS.ProcessEnv): string | undefined {
+  if (passwordEnv) {
+    if (!env[passwordEnv]) {
+      throw new ConfigError(`passwordEnv is set to ${passwordEnv}, but that environment variable is empty`);
+    }
+    return env[passwordEnv];
+  }
+  if (passwordCommand) {
+    try {
+      return execSync(passwordCommand, { encoding: "utf8", stdio: ["ignore", "pipe", "inherit"], timeout: 30000 }).trim();
+    } catch (error: any) {
+      throw new ConfigError(`passwordCommand failed: ${error.message || error}`);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Config settings from environment variables (unset variables are left undefined)
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<ServerConfig> {
+  const flag = (name: string): boolean | undefined => (env[name] ? env[name] === 'true' : undefined);
+  const number = (name: string): number | undefined => (env[name] ? Number(env[name]) : undefined);
+  const list = (name: string): string[] | undefined =>
+    env[name] ? env[name]!.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+
+  let x402AbilityBudgets: Record<string, number> | undefined;
+  if (env.UNBROWSE_X402_ABILITY_BUDGETS) {
+    try {
+      x402AbilityBudgets = JSON.parse(env.UNBROWSE_X402_ABILITY_BUDGETS);
+    } catch (error: any) {
+      throw new ConfigError(`UNBROWSE_X402_ABILITY_BUDGETS is not valid JSON: ${error.message}`);
+    }
+  }
+
+  return {
+    solanaPrivateKey: env.SOLANA_PRIVATE_KEY || env.UNBROWSE_SOLANA_KEY,
+    solanaKeypairPath: env.SOLANA_KEYPAIR_PATH,
+    x402SignerCommand: env.UNBROWSE_X402_SIGNER_COMMAND,
+    x402SignerPublicKey: env.UNBROWSE_X402_SIGNER_PUBKEY,
+    solanaRpcUrl: env.SOLANA_RPC_URL,
+    apiKey: env.UNBROWSE_API_KEY,
+    sessionToken: env.UNBROWSE_SESSION_TOKEN,
+    apiBaseUrl: env.UNBROWSE_API_BASE_URL,
+    proxyUrl: env.PROXY_URL,
+    password: env.UNBROWSE_PASSWORD || env.UNBROWSE_CREDENTIAL_KEY,
+    debug: flag('DEBUG'),
+    enableIndexTool: flag('ENABLE_INDEX_TOOL'),
+    devMode: env.DEV_MODE || env.UNBROWSE_DEV_MODE ? env.DEV_MODE === 'true' || env.UNBROWSE_DEV_MODE === 'true' : undefined,
+    executionMode: env.UNBROWSE_EXECUTION_MODE as ServerConfig['executionMode'] | undefined,
+    wrapperEnvAllowlist: list('UNBROWSE_WRAPPER_ENV_ALLOWLIST'),
+    wrapperEgressAllowlist: list('UNBROWSE_WRAPPER_EGRESS_ALLOWLIST'),
+    wrapperTimeoutMs: number('UNBROWSE_WRAPPER_TIMEOUT_MS'),
+    wrapperMemoryLimitMb: number('UNBROWSE_WRAPPER_MEMORY_MB'),
+    x402AllowedRecipients: list('UNBROWSE_X402_ALLOWED_RECIPIENTS'),
+    x402AllowMainnet: flag('UNBROWSE_X402_ALLOW_MAINNET'),
+    x402Fallback: env.UNBROWSE_X402_FALLBACK ? env.UNBROWSE_X402_FALLBACK !== 'false' : undefined,
+    x402LedgerPath: env.UNBROWSE_PAYMENT_LEDGER,
+    x402LowBalanceExecutions: number('UNBROWSE_X402_LOW_BALANCE_EXECUTIONS'),
+    x402ConfirmAboveCents: number('UNBROWSE_X402_CONFIRM_ABOVE_CENTS'),
+    x402MaxPerCallUsdc: number('UNBROWSE_X402_MAX_PER_CALL_USDC'),
+    x402SessionBudgetUsdc: number('UNBROWSE_X402_SESSION_BUDGET_USDC'),
+    x402DailyBudgetUsdc: number('UNBROWSE_X402_DAILY_BUDGET_USDC'),
+    x402PerAbilityBudgetUsdc: number('UNBROWSE_X402_ABILITY_BUDGET_USDC'),
+    x402AbilityBudgets,
+    registerFavoriteTools: env.UNBROWSE_REGISTER_FAVORITES ? env.UNBROWSE_REGISTER_FAVORITES !== 'false' : undefined,
+    maxFavoriteTools: number('UNBROWSE_MAX_FAVORITE_TOOLS'),
+    favoritesRefreshIntervalSeconds: number('UNBROWSE_FAVORITES_REFRESH_SECONDS'),
+  };
+}
+
+/**
+ * Fills the settings an already parsed config leaves unset or at their
+ * defaults from environment variables, for entry points that get their config
+ * without loadConfig (Smithery and its Docker image). Settings the config
+ * gives explicitly win, and the result is validated against configSchema.
+ */
+export function applyEnvConfig(config: ServerConfig, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const defaults: Record<string, unknown> = configSchema.parse({});
+  const merged: Record<string, unknown> = { ...config };
+  for (const [key, value] of Object.entries(configFromEnv(env))) {
+    if (value !== undefined && (merged[key] === undefined || isDeepStrictEqual(merged[key], defaults[key]))) {
+      merged[key] = value;
+    }
+  }
+
+  const parsed = configSchema.safeParse(merged);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `  ${issue.path.join(".")}: ${issue.message}`);
+    throw new ConfigError(`Invalid configuration from environment variables:\n${issues.join("\n")}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Whether the config has at least one way to authenticate or pay
+ */
+export function hasAuthConfig(config: ServerConfig): boolean {
+  return Boolean(config.apiKey || config.sessionToken || config.solanaPrivateKey || config.solanaKeypairPath || config.x402SignerCommand);
+}
+
+/**
+ * Prints the missing-authentication error with the supported config sources
+ */
+export function printConfigHelp(): void {
+  console.error("Configuration error: Authentication required");
+  console.error(`\nSet one in a profile of ${defaultConfigPaths()[0]} (or .yaml), or with environment variables.`);
+  console.error("\nRequired environment variables (one of):");
+  console.error("  SOLANA_PRIVATE_KEY - Solana private key for x402 mode (recommended)");
+  console.error("  SOLANA_KEYPAIR_PATH - Solana CLI keypair file (id.json) for x402 mode");
+  console.error("  UNBROWSE_X402_SIGNER_COMMAND - External signer process for x402 mode (with UNBROWSE_X402_SIGNER_PUBKEY)");
+  console.error("  UNBROWSE_API_KEY - Your Unbrowse API key (starts with re_)");
+  console.error("  UNBROWSE_SESSION_TOKEN - Your session token");
+  console.error("\nOptional environment variables:");
+  console.error("  UNBROWSE_PROFILE - Config file profile to use (same as --profile)");
+  console.error("  UNBROWSE_CONFIG - Config file to read instead of the default location (same as --config)");
+  console.error("  UNBROWSE_PASSWORD - Password for credential decryption");
+  console.error("  UNBROWSE_API_BASE_URL - Unbrowse API base URL (default: https://index.unbrowse.ai)");
+  console.error("  PROXY_URL - Proxy for requests made by local wrapper code");
+  console.error("  DEV_MODE - Set to 'true' to enable developer mode");
+  console.error("  ENABLE_INDEX_TOOL - Set to 'true' to enable the ingest_api_endpoint tool");
+  console.error("  UNBROWSE_EXECUTION_MODE - 'remote' (default) or 'local' to run abilities on this machine");
+  console.error("  UNBROWSE_WRAPPER_ENV_ALLOWLIST - Comma-separated env vars visible to local wrapper code");
+  console.error("  UNBROWSE_WRAPPER_EGRESS_ALLOWLIST - Comma-separated extra hosts local wrapper code may contact");
+  console.error("  UNBROWSE_WRAPPER_TIMEOUT_MS - Time limit for local wrapper execution (default: 30000)");
+  console.error("  UNBROWSE_WRAPPER_MEMORY_MB - Memory limit for local wrapper execution (default: 64)");
+  console.error("  UNBROWSE_X402_ALLOW_MAINNET - Set to 'true' to allow x402 payments on mainnet");
+  console.error("  UNBROWSE_X402_ALLOWED_RECIPIENTS - Comma-separated wallets x402 payments may go to besides the platform wallets");
+  console.error("  UNBROWSE_X402_SESSION_BUDGET_USDC - x402 spending limit for this session (also _MAX_PER_CALL_, _DAILY_BUDGET_, _ABILITY_BUDGET_)");
+  console.error("  UNBROWSE_X402_CONFIRM_ABOVE_CENTS - Ask for confirmation before x402 batches above this cost");
+  console.error("  UNBROWSE_X402_FALLBACK - Set to 'false' to never pay with x402 when the API key account runs out of tokens");
+  console.error("  UNBROWSE_X402_LOW_BALANCE_EXECUTIONS - Warn when the wallet covers fewer executions (default: 10)");
+  console.error("  UNBROWSE_PAYMENT_LEDGER - x402 payment ledger file (default: ~/.unbrowse/payments.jsonl, 'off' to disable)");
+  console.error("  UNBROWSE_REGISTER_FAVORITES - Set to 'false' to skip registering favorites as tools");
+  console.error("  UNBROWSE_MAX_FAVORITE_TOOLS - Maximum favorites registered as tools (default: 20)");
+}
@@ -0,0 +1,54 @@
+/**
+ * Server config schema
+ *
+ * Shared by the Smithery entry point (createServer in index.ts) and the config
+ * loader used by the CLI entry points.
+ */
+
+import { z } from "zod";
+
+// User-level config from smithery.yaml
+// Note: Auth is validated in createServer, since any one of several methods is enough
+export const configSchema = z.object({
+  // x402 Payment authentication (pay-per-request with Solana USDC) - Recommended
+  solanaPrivateKey: z.string().optional().describe("Base58 encoded Solana private key for x402 payment-based authentication. No account required - just fund wallet with USDC."),
+  solanaKeypairPath: z.string().optional().describe("Solana CLI keypair file (id.json) to sign x402 payments with, instead of solanaPrivateKey."),
+  x402SignerCommand: z.string().optional().describe("Command that starts an external x402 signer process (JSON-RPC over stdio), so no private key is held by this server."),
+  x402SignerPublicKey: z.string().optional().describe("Wallet address of the external x402 signer. Required with x402SignerCommand."),
+  solanaRpcUrl: z.string().optional().describe("Custom Solana RPC URL (defaults to mainnet)."),
+
+  // Traditional API key/session token authentication
+  apiKey: z.string().optional().describe("Your Unbrowse API key from the dashboard (starts with re_). Alternative to solanaPrivateKey."),
+  sessionToken: z.string().optional().describe("Your session token (alternative to apiKey or solanaPrivateKey)."),
+
+  // Common options
+  apiBaseUrl: z.string().url().optional().describe("Unbrowse API base URL (defaults to https://index.unbrowse.ai)"),
+  proxyUrl: z.string().url().optional().describe("Proxy for requests made by locally executed wrapper code"),
+  password: z.string().optional().describe("Your encryption password for credential decryption. Only required if abilities need credentials."),
+  debug: z.boolean().default(false).describe("Enable debug logging"),
+  enableIndexTool: z.boolean().default(false).describe("Enable the ingest_api_endpoint tool for indexing new APIs"),
+  devMode: z.boolean().default(false).describe("Enable developer mode to see detailed API usage documentation in search results (RAG mode)"),
+  executionMode: z.enum(["remote", "local"]).default("remote").describe("Where abilities run: 'remote' on the Unbrowse server, or 'local' on this machine so decrypted credentials never leave it (API key mode only)"),
+  wrapperEnvAllowlist: z.array(z.string()).default([]).describe("Environment variables visible to locally executed wrapper code (exact names or PREFIX_* patterns). Secrets used by this server are never exposed."),
+  wrapperEgressAllowlist: z.array(z.string()).default([]).describe("Extra hosts locally executed wrapper code may contact besides the ability's own domain (subdomains included, '*' allows any host)"),
+  wrapperTimeoutMs: z.number().int().positive().default(30000).describe("Maximum wall-clock time for a local wrapper execution"),
+  wrapperMemoryLimitMb: z.number().int().positive().default(64).describe("Memory limit for the local wrapper sandbox"),
+
+  // x402 spending limits in USDC (unset = unlimited)
+  x402MaxPerCallUsdc: z.number().positive().optional().describe("Largest single x402 payment allowed, in USDC"),
+  x402SessionBudgetUsdc: z.number().positive().optional().describe("Total x402 spending allowed for this server session, in USDC"),
+  x402DailyBudgetUsdc: z.number().positive().optional().describe("Total x402 spending allowed per UTC day, in USDC"),
+  x402PerAbilityBudgetUsdc: z.number().positive().optional().describe("Default x402 spending allowed per ability for this session, in USDC"),
+  x402AbilityBudgets: z.record(z.number().positive()).optional().describe("Per-ability x402 spending limits in USDC, keyed by abilityId (overrides x402PerAbilityBudgetUsdc)"),
+  x402AllowedRecipients: z.array(z.string()).optional().describe("Wallets x402 payments may be sent to besides the built-in platform wallets. Payments to any other wallet are rejected before signing."),
+  x402AllowMainnet: z.boolean().default(false).describe("Allow x402 payments on Solana mainnet (devnet only by default)"),
+  x402ConfirmAboveCents: z.number().min(0).optional().describe("Ask for confirmation (MCP elicitation) before a batch projected to cost more than this many cents runs"),
+  x402Fallback: z.boolean().default(true).describe("When an API key or session token and an x402 signer are both configured, pay with x402 for calls the account has no tokens left for"),
+  x402LowBalanceExecutions: z.number().int().min(0).default(10).describe("Warn when the wallet balance covers fewer than this many executions"),
+  x402LedgerPath: z.string().optional().describe("Append-only JSONL file recording every x402 payment (default ~/.unbrowse/payments.jsonl, 'off' keeps history in memory only)"),
+
+  // Favorite abilities (API key / session token mode only)
+  registerFavoriteTools: z.boolean().default(true).describe("Register your favorited abilities as individual MCP tools at startup"),
+  maxFavoriteTools: z.number().int().min(0).default(20).describe("Maximum number of favorited abilities to register as tools"),
+  favoritesRefreshIntervalSeconds: z.number().int().min(0).default(300).describe("How often to re-check favorites and update the tool list (0 disables refreshing)"),
+});
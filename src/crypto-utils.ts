@@ -1,5 +1,5 @@
 /**
- * Cryptography utilities for decrypting credentials
+ * Cryptography utilities for encrypting and decrypting credentials
  *
  * Implements the encryption format used by the browser extension:
  * - AES-256-GCM encryption
@@ -13,7 +13,7 @@
  * }
  */
 
-import { createDecipheriv, createHash } from "crypto";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
 
 /**
  * Encrypted data structure from the extension
@@ -73,20 +73,24 @@ export function decryptData(
  * @param value - Credential value (encrypted JSON or plain text)
  * @param encryptionKey - Encryption key for decryption
  * @returns Decrypted value or original value if not encrypted
+ * @throws If the value is encrypted and cannot be decrypted with the key
  */
 export function decryptCredentialValue(
   value: string,
   encryptionKey: string
 ): string {
   // Try to parse as encrypted JSON
+  let parsed: any;
   try {
-    const parsed = JSON.parse(value);
-    if (parsed.ciphertext && parsed.iv) {
-      // It's encrypted, decrypt it
-      return decryptData(parsed, encryptionKey);
-    }
+    parsed = JSON.parse(value);
   } catch {
     // Not JSON, treat as plain text
+    return value;
+  }
+
+  if (parsed?.ciphertext && parsed?.iv) {
+    // It's encrypted, decrypt it (throws on a wrong key or corrupted data)
+    return decryptData(parsed, encryptionKey);
   }
 
   // Return as-is (plain text credential)
@@ -117,3 +121,56 @@ export function decryptCredentials(
 
   return decrypted;
 }
+
+/**
+ * Encrypts data using the extension's encryption format
+ *
+ * @param plaintext - Value to encrypt
+ * @param encryptionKey - Encryption key (same password used for decryption)
+ * @returns Encrypted data object (auth tag appended to ciphertext)
+ */
+export function encryptData(
+  plaintext: string,
+  encryptionKey: string
+): EncryptedData {
+  // Derive key using SHA-256 hash (same as extension)
+  const key = createHash("sha256").update(encryptionKey).digest();
+
+  // 12-byte IV, as generated by the extension's Web Crypto implementation
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return {
+    ciphertext: Buffer.concat([encrypted, authTag]).toString("base64"),
+    iv: iv.toString("base64"),
+  };
+}
+
+/**
+ * Encrypts a credential value into the JSON string format stored by the API
+ *
+ * @param value - Plain text credential value
+ * @param encryptionKey - Encryption key for encryption
+ * @returns JSON string containing ciphertext and iv
+ */
+export function encryptCredentialValue(
+  value: string,
+  encryptionKey: string
+): string {
+  return JSON.stringify(encryptData(value, encryptionKey));
+}
+
+/**
+ * Masks a secret value for display, keeping only a short prefix
+ *
+ * @param value - Secret value (plain text or encrypted JSON)
+ * @returns Masked representation safe to show in logs and tool output
+ */
+export function maskSecret(value: string | null | undefined): string {
+  if (!value) return "";
+  if (value.length <= 8) return "****";
+  return `${value.substring(0, 4)}****`;
+}
@@ -0,0 +1,266 @@
+/**
+ * `unbrowse-mcp doctor` - Configuration and Connectivity Diagnostics
+ *
+ * Loads the config the server would use and checks, in order: the config
+ * source, the auth mode createServer would pick, API reachability and auth,
+ * credential decryption with the configured password, the x402 wallet, the
+ * proxy and the environment credential overrides. Secrets are never printed.
+ *
+ * Usage: unbrowse-mcp doctor [--json] [--verbose] [--profile <name>] [--config <path>]
+ *
+ * Exits with 1 if any check fails (warnings do not fail).
+ */
+
+import { ProxyAgent } from "undici";
+import { selectAuthMode, type AuthModeSelection } from "./ability-backend.js";
+import { UNBROWSE_API_BASE_URL } from "./api-client.js";
+import { createClients, type CliClients } from "./cli-commands.js";
+import { ConfigError, loadConfig, type LoadedConfig } from "./config-loader.js";
+import { decryptCredentialValue } from "./crypto-utils.js";
+import { parseEnvCredentialOverrides } from "./env-credentials.js";
+import { X402_PRICES } from "./x402-solana.js";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+type CheckStatus = "ok" | "warn" | "fail" | "skip";
+
+interface CheckResult {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+const STATUS_SYMBOLS: Record<CheckStatus, string> = { ok: "✓", warn: "!", fail: "✗", skip: "-" };
+
+const maskUrlCredentials = (url: string): string => url.replace(/:[^:@/]+@/, ":****@");
+
+/**
+ * GET with a time limit, optionally through a proxy
+ */
+async function timedGet(url: string, options: { headers?: Record<string, string>; proxy?: ProxyAgent } = {}) {
+  const startedAt = Date.now();
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    ...(options.proxy ? { dispatcher: options.proxy } : {}),
+  } as RequestInit);
+  await response.arrayBuffer().catch(() => undefined);
+  return { status: response.status, elapsedMs: Date.now() - startedAt };
+}
+
+const describeFetchError = (error: any): string =>
+  error?.name === "TimeoutError" ? `no response within ${REQUEST_TIMEOUT_MS / 1000}s` : error?.cause?.message || error?.message || String(error);
+
+/**
+ * Runs every check and collects the results. Later checks are skipped when
+ * the config or auth mode they depend on is unusable.
+ */
+export async function runDoctorChecks(args: string[] = [], env: NodeJS.ProcessEnv = process.env): Promise<CheckResult[]> {
+  const checks: CheckResult[] = [];
+  const check = (name: string, status: CheckStatus, detail: string) => checks.push({ name, status, detail });
+
+  // Config source
+  let loaded: LoadedConfig;
+  try {
+    loaded = loadConfig(args, env);
+  } catch (error: any) {
+    check("Config", "fail", error instanceof ConfigError ? error.message : `Failed to load config: ${error.message || error}`);
+    return checks;
+  }
+  const { config } = loaded;
+  check("Config", "ok", loaded.path
+    ? `${loaded.path}${loaded.profile ? ` (profile "${loaded.profile}")` : ""}`
+    : "Environment variables only (no config file)");
+
+  // Auth mode, decided exactly as createServer does
+  const hasPaymentSigner = !!(config.solanaPrivateKey || config.solanaKeypairPath || config.x402SignerCommand);
+  const selection: AuthModeSelection | null = selectAuthMode({
+    apiKey: config.apiKey,
+    sessionToken: config.sessionToken,
+    hasPaymentSigner,
+    x402Fallback: config.x402Fallback,
+  });
+  if (selection) {
+    check("Auth mode", "ok", `${selection.mode}${selection.x402Fallback ? " with x402 fallback" : ""}: ${selection.reason}`);
+  } else {
+    check("Auth mode", "fail", "No credentials: set UNBROWSE_API_KEY, UNBROWSE_SESSION_TOKEN or an x402 signer (SOLANA_PRIVATE_KEY, SOLANA_KEYPAIR_PATH or UNBROWSE_X402_SIGNER_COMMAND)");
+  }
+
+  // API reachability (the public index needs no auth)
+  const apiBaseUrl = (config.apiBaseUrl || UNBROWSE_API_BASE_URL).replace(/\/+$/, "");
+  let apiReachable = false;
+  try {
+    const { status, elapsedMs } = await timedGet(`${apiBaseUrl}/public/abilities?q=doctor&top_k=1`);
+    apiReachable = true;
+    check("API", status < 500 ? "ok" : "warn", `${apiBaseUrl} answered with HTTP ${status} in ${elapsedMs} ms`);
+  } catch (error: any) {
+    check("API", "fail", `${apiBaseUrl} is unreachable: ${describeFetchError(error)}`);
+  }
+
+  let clients: CliClients | null = null;
+  if (selection) {
+    try {
+      clients = createClients(config);
+    } catch (error: any) {
+      check(selection.mode === "x402" ? "x402 wallet" : "API auth", "fail", `Failed to create the client: ${error.message || error}`);
+    }
+  }
+
+  // API key / session token validity
+  let authAccepted = false;
+  if (!clients?.apiClient) {
+    check("API auth", "skip", selection?.mode === "x402" ? "x402 mode has no account; each request is paid for" : "No API key or session token");
+  } else if (!apiReachable) {
+    check("API auth", "skip", "API is unreachable");
+  } else {
+    try {
+      const result = await clients.apiClient.listAbilities({ favorites: true });
+      authAccepted = true;
+      check("API auth", "ok", `${clients.apiClient.mode} accepted (${result.count ?? result.abilities.length} favorited abilities)`);
+    } catch (error: any) {
+      const rejected = /\b(401|403)\b/.test(error.message || "");
+      check("API auth", "fail", rejected
+        ? `${clients.apiClient.mode} was rejected (${error.message}). Check the key, or create a new one in the dashboard.`
+        : `Could not verify the ${clients.apiClient.mode}: ${error.message || error}`);
+    }
+  }
+
+  // Credential decryption with the configured password
+  if (!clients?.apiClient || !authAccepted) {
+    check("Password", "skip", "Stored credentials need a reachable API and an accepted API key or session token");
+  } else if (!config.password) {
+    check("Password", "skip", "No password configured (only needed for abilities with stored credentials)");
+  } else {
+    try {
+      const listed = (await clients.apiClient.listCredentials(true)).credentials;
+      const credentials: any[] = Array.isArray(listed)
+        ? listed
+        : Object.values(listed || {}).flatMap((entries) => (Array.isArray(entries) ? entries : []));
+      const sample = credentials.find((credential) => {
+        try {
+          const parsed = JSON.parse(credential?.encryptedValue ?? "");
+          return !!(parsed?.ciphertext && parsed?.iv);
+        } catch {
+          return false;
+        }
+      });
+
+      if (!sample) {
+        check("Password", "skip", "No encrypted stored credentials to test the password with");
+      } else {
+        const key = sample.credentialKey || sample.credentialId || "credential";
+        try {
+          decryptCredentialValue(sample.encryptedValue, config.password);
+          check("Password", "ok", `Decrypts stored credential ${key}`);
+        } catch {
+          check("Password", "fail", `Does not decrypt stored credential ${key}. Use the password the credentials were stored with.`);
+        }
+      }
+    } catch (error: any) {
+      check("Password", "warn", `Could not test the password: ${error.message || error}`);
+    }
+  }
+
+  // x402 wallet and balance
+  if (!clients?.x402Client) {
+    check("x402 wallet", "skip", hasPaymentSigner
+      ? "Signer configured but unused (x402Fallback is off)"
+      : "No x402 signer configured");
+  } else {
+    const x402Client = clients.x402Client;
+    const chain = x402Client.getPaymentChain().chain;
+    const wallet = `${x402Client.getWalletAddress()} (${x402Client.getSignerKind()} signer, ${chain})`;
+    try {
+      const [usdc, sol] = await Promise.all([x402Client.getBalance(chain), x402Client.getSolBalance(chain)]);
+      const executions = Number(BigInt(usdc.balance) / X402_PRICES.execute);
+      const problems = [
+        ...(executions < config.x402LowBalanceExecutions ? [`covers only ${executions} executions`] : []),
+        ...(sol === null ? ["SOL balance unavailable"] : BigInt(sol.balance) === 0n ? ["no SOL for transaction fees"] : []),
+      ];
+      check("x402 wallet", problems.length > 0 ? "warn" : "ok",
+        `${wallet}: ${usdc.balanceFormatted}${sol ? `, ${sol.balanceFormatted}` : ""}${problems.length > 0 ? ` - ${problems.join(", ")}` : ""}`);
+    } catch (error: any) {
+      check("x402 wallet", "warn", `${wallet}: balance unavailable (${error.message || error}). Check SOLANA_RPC_URL.`);
+    }
+  }
+
+  // Proxy for local wrapper executions
+  if (!config.proxyUrl) {
+    check("Proxy", "skip", "No proxy configured");
+  } else {
+    const display = maskUrlCredentials(config.proxyUrl);
+    const usage = config.executionMode === "local" ? "" : " (only used for local execution; executionMode is remote)";
+    let proxy: ProxyAgent | undefined;
+    try {
+      if (!/^https?:$/.test(new URL(config.proxyUrl).protocol)) throw new Error("only http:// and https:// proxies are supported");
+      proxy = new ProxyAgent(config.proxyUrl);
+    } catch (error: any) {
+      check("Proxy", "fail", `${display} is invalid: ${error.message || error}`);
+    }
+    if (proxy) {
+      try {
+        const { status, elapsedMs } = await timedGet(`${apiBaseUrl}/public/abilities?q=doctor&top_k=1`, { proxy });
+        check("Proxy", usage ? "warn" : "ok", `${display} reached the API (HTTP ${status}, ${elapsedMs} ms)${usage}`);
+      } catch (error: any) {
+        check("Proxy", "fail", `${display} could not reach ${apiBaseUrl}: ${describeFetchError(error)}${usage}`);
+      } finally {
+        await proxy.close().catch(() => undefined);
+      }
+    }
+  }
+
+  // Credential overrides from environment variables (keys only)
+  const parseErrors: string[] = [];
+  const overrides = parseEnvCredentialOverrides(env, (varName) => parseErrors.push(varName));
+  const sources = new Map<string, string[]>();
+  for (const [key, { source }] of overrides) {
+    sources.set(source, [...(sources.get(source) || []), key]);
+  }
+  const parsed = Array.from(sources, ([source, keys]) => `${source}: ${keys.join(", ")}`);
+  if (parseErrors.length > 0) {
+    check("Env overrides", "fail", `Not valid JSON: ${parseErrors.join(", ")}${parsed.length > 0 ? `; parsed ${parsed.join("; ")}` : ""}`);
+  } else if (parsed.length > 0) {
+    check("Env overrides", "ok", `${overrides.size} dynamic header${overrides.size === 1 ? "" : "s"} from ${parsed.join("; ")}`);
+  } else {
+    check("Env overrides", "skip", "No JSON overrides set (per-header variables like API_GITHUB_COM__AUTHORIZATION are resolved per ability)");
+  }
+
+  return checks;
+}
+
+/**
+ * Runs the doctor command
+ * @returns Process exit code
+ */
+export async function runDoctor(args: string[]): Promise<number> {
+  // Client logs would bury the report; --verbose shows them
+  const { error: logError, warn: logWarn } = console;
+  if (!args.includes("--verbose")) {
+    console.error = () => {};
+    console.warn = () => {};
+  }
+
+  let checks: CheckResult[];
+  try {
+    checks = await runDoctorChecks(args);
+  } finally {
+    console.error = logError;
+    console.warn = logWarn;
+  }
+
+  const failed = checks.filter((check) => check.status === "fail").length;
+  const warnings = checks.filter((check) => check.status === "warn").length;
+
+  if (args.includes("--json")) {
+    process.stdout.write(JSON.stringify({ success: failed === 0, checks }, null, 2) + "\n");
+  } else {
+    const width = Math.max(...checks.map((check) => check.name.length));
+    for (const check of checks) {
+      process.stdout.write(`${STATUS_SYMBOLS[check.status]} ${check.name.padEnd(width)}  ${check.detail}\n`);
+    }
+    process.stdout.write(`\n${failed === 0 ? "No problems found" : `${failed} check${failed === 1 ? "" : "s"} failed`}` +
+      `${warnings > 0 ? `, ${warnings} warning${warnings === 1 ? "" : "s"}` : ""}\n`);
+  }
+
+  return failed === 0 ? 0 : 1;
+}
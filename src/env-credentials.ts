@@ -0,0 +1,47 @@
+/**
+ * Credential Overrides from Environment Variables
+ *
+ * Dynamic header values can be supplied as a JSON object of dynamic header key
+ * ("domain::Header") to value, in any of ENV_CREDENTIAL_OVERRIDE_VARS. These
+ * take precedence over stored credentials when an ability runs.
+ */
+
+export const ENV_CREDENTIAL_OVERRIDE_VARS = [
+  "UNBROWSE_TOOL_HEADERS",
+  "UNBROWSE_DYNAMIC_HEADERS",
+  "TOOL_DYNAMIC_HEADERS",
+  "MCP_TOOL_HEADERS",
+];
+
+/**
+ * Parses the JSON override variables
+ *
+ * @param onError - Called for a variable that is not valid JSON (it is skipped)
+ * @returns Dynamic header key -> value and the variable it came from
+ */
+export function parseEnvCredentialOverrides(
+  env: NodeJS.ProcessEnv,
+  onError?: (varName: string, error: unknown) => void,
+): Map<string, { value: string; source: string }> {
+  const mapping = new Map<string, { value: string; source: string }>();
+
+  for (const varName of ENV_CREDENTIAL_OVERRIDE_VARS) {
+    const raw = env[varName];
+    if (!raw) continue;
+
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === "object") {
+        for (const [rawKey, rawValue] of Object.entries(parsed)) {
+          if (typeof rawKey === "string" && typeof rawValue === "string") {
+            mapping.set(rawKey, { value: rawValue, source: varName });
+          }
+        }
+      }
+    } catch (error) {
+      onError?.(varName, error);
+    }
+  }
+
+  return mapping;
+}
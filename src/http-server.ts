@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Unbrowse MCP Server - Streamable HTTP Transport
+ *
+ * Serves the MCP server over Streamable HTTP at /mcp, so one instance can be
+ * shared by a team without Smithery. Every MCP session gets its own server
+ * instance (and its own caches); idle sessions are closed after 30 minutes.
+ *
+ * Multi-tenant mode: each session authenticates with its own Unbrowse API key
+ * or session token (`Authorization: Bearer <key>` on every request) and an
+ * optional X-Credential-Key for credential decryption. Sessions never see the
+ * server's own keys, wallet, password, proxy or environment credential
+ * overrides, abilities always run remotely, and a session can only be used
+ * with the key that started it.
+ *
+ * Requests must name the server in their Host header (DNS rebinding
+ * protection) and browsers may only call it from an allowed Origin. Binding a
+ * non-loopback interface requires UNBROWSE_HTTP_TOKEN (or multi-tenant mode).
+ *
+ * Usage: unbrowse-mcp --transport http [--port <port>] [--host <host>] [--multi-tenant] [--profile <name>]
+ *
+ * Environment variables (besides the ones the stdio server reads):
+ *   PORT - Port to listen on (default: 3000, --port takes precedence)
+ *   UNBROWSE_HTTP_HOST - Interface to bind (default: 127.0.0.1, --host takes precedence)
+ *   UNBROWSE_CORS_ORIGINS - Comma-separated origins allowed to call the server from a browser ('*' for any)
+ *   UNBROWSE_HTTP_TOKEN - Shared secret clients must send as 'Authorization: Bearer <token>' (single-tenant mode)
+ *   UNBROWSE_HTTP_ALLOWED_HOSTS - Extra Host header values to accept, e.g. a public DNS name ('mcp.example.com')
+ *   UNBROWSE_HTTP_MULTI_TENANT - Set to 'true' for multi-tenant mode (same as --multi-tenant)
+ */
+
+import { ConfigError, hasAuthConfig, loadConfig, printConfigHelp, type ServerConfig } from "./config-loader.js";
+import { isLoopbackHost, startHttpServer } from "./http-transport.js";
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = "127.0.0.1";
+
+/**
+ * Value of a `--name value` command line option
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Read config from the config file profile and environment variables
+  let config: ServerConfig;
+  try {
+    ({ config } = loadConfig(args));
+  } catch (error: any) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(`Configuration error: ${error.message}`);
+    process.exit(1);
+  }
+
+  const multiTenant = args.includes("--multi-tenant") || process.env.UNBROWSE_HTTP_MULTI_TENANT === "true";
+
+  // Validate config (tenants bring their own keys)
+  if (multiTenant && hasAuthConfig(config)) {
+    console.warn("[WARN] Multi-tenant mode ignores the server's own API key, session token and x402 wallet");
+  }
+  if (multiTenant && (config.executionMode === "local" || config.proxyUrl)) {
+    console.warn("[WARN] Multi-tenant sessions always execute abilities remotely; executionMode and the proxy are ignored");
+  }
+  if (!multiTenant && !hasAuthConfig(config)) {
+    printConfigHelp();
+    process.exit(1);
+  }
+
+  const port = Number(getOption(args, "--port") || process.env.PORT || DEFAULT_PORT);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`[ERROR] Invalid port: ${getOption(args, "--port") || process.env.PORT}`);
+    process.exit(1);
+  }
+
+  const host = getOption(args, "--host") || process.env.UNBROWSE_HTTP_HOST || DEFAULT_HOST;
+  const authToken = process.env.UNBROWSE_HTTP_TOKEN || undefined;
+  const splitList = (value: string | undefined) => (value || "").split(",").map((entry) => entry.trim()).filter(Boolean);
+
+  // Anyone who can reach the port could spend the server's API key or wallet
+  if (!isLoopbackHost(host) && !multiTenant && !authToken) {
+    console.error(
+      `[ERROR] Refusing to listen on ${host} without authentication: every client that can reach it would use this server's API key and wallet.\n` +
+      "[ERROR] Set UNBROWSE_HTTP_TOKEN to a random secret that clients send as 'Authorization: Bearer <token>', " +
+      "use --multi-tenant so each client brings its own key, or bind to 127.0.0.1.",
+    );
+    process.exit(1);
+  }
+
+  console.error("[INFO] Starting Unbrowse MCP server with Streamable HTTP transport...");
+
+  try {
+    const close = await startHttpServer({
+      port,
+      host,
+      corsOrigins: splitList(process.env.UNBROWSE_CORS_ORIGINS),
+      multiTenant,
+      authToken,
+      allowedHosts: splitList(process.env.UNBROWSE_HTTP_ALLOWED_HOSTS),
+      config,
+    });
+
+    const shutdown = () => {
+      console.error("[INFO] Shutting down...");
+      close().finally(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  } catch (error: any) {
+    console.error("[ERROR] Failed to start server:", error.message || error);
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("[FATAL] Unhandled error:", error);
+  process.exit(1);
+});
@@ -0,0 +1,327 @@
+/**
+ * Streamable HTTP transport for the MCP server
+ *
+ * Serves the MCP server at /mcp. Every MCP session gets its own server
+ * instance (and its own caches); sessions idle for longer than
+ * SESSION_IDLE_TIMEOUT_MS are closed. See http-server.ts for the command line
+ * entry point and multi-tenant mode.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { networkInterfaces } from "os";
+import type { AddressInfo } from "net";
+import cors from "cors";
+import express from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import createServer from "./index.js";
+import type { ServerConfig } from "./config-loader.js";
+import { maskSecret } from "./crypto-utils.js";
+
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  corsOrigins: string[]; // Empty disables CORS, ["*"] allows any origin
+  multiTenant?: boolean; // Each session brings its own API key (see createTenantConfig)
+  authToken?: string; // Single-tenant mode: bearer token every MCP request must carry
+  allowedHosts?: string[]; // Host header values accepted besides the ones derived from host and port
+  config: ServerConfig;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: ReturnType<typeof createServer>;
+  lastActivity: number;
+  tokenHash?: string; // Multi-tenant mode: hash of the bearer token that started the session
+}
+
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+const LOOPBACK_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+/**
+ * True when host only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, "").toLowerCase();
+  return bare === "localhost" || bare === "::1" || /^127\.\d+\.\d+\.\d+$/.test(bare);
+}
+
+/**
+ * Host header values that address this server: the bind host (every local
+ * interface for 0.0.0.0 and ::) and the loopback names, with the port
+ */
+function resolveAllowedHosts(host: string, port: number, extra: string[] = []): string[] {
+  const bracket = (address: string) => (address.includes(":") ? `[${address}]` : address);
+  const names = new Set<string>();
+
+  if (host === "0.0.0.0" || host === "::") {
+    LOOPBACK_HOSTS.forEach((name) => names.add(name));
+    for (const addresses of Object.values(networkInterfaces())) {
+      for (const { address } of addresses || []) {
+        names.add(bracket(address));
+      }
+    }
+  } else if (isLoopbackHost(host)) {
+    LOOPBACK_HOSTS.forEach((name) => names.add(name));
+    names.add(bracket(host.replace(/^\[|\]$/g, "")));
+  } else {
+    names.add(bracket(host.replace(/^\[|\]$/g, "")));
+  }
+
+  return [...Array.from(names, (name) => `${name.toLowerCase()}:${port}`), ...extra];
+}
+
+/**
+ * Bearer token from the Authorization header
+ */
+function getBearerToken(req: express.Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.header("authorization") || "");
+  return match?.[1];
+}
+
+/**
+ * Config for a tenant's session: the server's settings without its secrets,
+ * authenticated with the tenant's own key. Abilities run remotely, so tenant
+ * wrapper code never runs on this machine or through the server's proxy.
+ */
+function createTenantConfig(
+  config: ServerConfig,
+  token: string,
+  credentialKey?: string,
+): ServerConfig {
+  return {
+    ...config,
+    apiKey: token.startsWith("re_") ? token : undefined,
+    sessionToken: token.startsWith("re_") ? undefined : token,
+    password: credentialKey,
+    solanaPrivateKey: undefined,
+    solanaKeypairPath: undefined,
+    x402SignerCommand: undefined,
+    x402SignerPublicKey: undefined,
+    proxyUrl: undefined,
+    executionMode: "remote",
+    // Server environment variables must not reach tenants' wrapper code
+    wrapperEnvAllowlist: [],
+  };
+}
+
+/**
+ * Starts the HTTP server
+ * @returns A function that closes every session and stops the server
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<() => Promise<void>> {
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+  const app = express();
+
+  app.use(express.json({ limit: "4mb" }));
+
+  // Set once the server is listening and its port is known
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+
+  if (options.corsOrigins.length > 0) {
+    app.use(cors({
+      origin: options.corsOrigins.includes("*") ? true : options.corsOrigins,
+      allowedHeaders: ["Content-Type", "Authorization", "X-Credential-Key", "Mcp-Session-Id", "Mcp-Protocol-Version", "Last-Event-ID"],
+      exposedHeaders: ["Mcp-Session-Id"],
+      methods: ["GET", "POST", "DELETE"],
+    }));
+  }
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch((error: any) => {
+      console.error(`[WARN] Failed to close session ${sessionId}: ${error.message || error}`);
+    });
+  };
+
+  const sendJsonRpcError = (res: express.Response, status: number, message: string) => {
+    res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+  };
+
+  app.get("/healthz", (_req: express.Request, res: express.Response) => {
+    res.json({
+      status: "ok",
+      transport: "streamable-http",
+      multiTenant: Boolean(options.multiTenant),
+      sessions: sessions.size,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+  });
+
+  // Multi-tenant mode: every request must carry the bearer token of its session
+  const sendUnauthorized = (res: express.Response, message: string) => {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="unbrowse"');
+    sendJsonRpcError(res, 401, message);
+  };
+  const checkSessionToken = (req: express.Request, res: express.Response, session: Session): boolean => {
+    if (!options.multiTenant) return true;
+    const token = getBearerToken(req);
+    if (!token) {
+      sendUnauthorized(res, "Missing bearer token: send your Unbrowse API key as 'Authorization: Bearer <key>'");
+      return false;
+    }
+    if (hashToken(token) !== session.tokenHash) {
+      sendJsonRpcError(res, 403, "This session belongs to a different API key");
+      return false;
+    }
+    return true;
+  };
+
+  // Browsers always send Origin; other clients usually do not, so only a present,
+  // unknown Origin is rejected (the Host check happens in the transport)
+  const checkOrigin = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const origin = req.header("origin");
+    if (origin && !options.corsOrigins.includes("*") && !allowedOrigins.includes(origin)) {
+      return sendJsonRpcError(res, 403, `Origin not allowed: ${origin}`);
+    }
+    next();
+  };
+
+  // Single-tenant mode with UNBROWSE_HTTP_TOKEN: every MCP request carries the shared token
+  const expectedTokenHash = options.authToken ? Buffer.from(hashToken(options.authToken), "hex") : undefined;
+  const checkServerToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!expectedTokenHash || options.multiTenant) return next();
+    const token = getBearerToken(req);
+    if (!token || !timingSafeEqual(Buffer.from(hashToken(token), "hex"), expectedTokenHash)) {
+      return sendUnauthorized(res, "Missing or invalid bearer token: send the server's UNBROWSE_HTTP_TOKEN as 'Authorization: Bearer <token>'");
+    }
+    next();
+  };
+
+  app.use("/mcp", checkOrigin, checkServerToken);
+
+  app.post("/mcp", async (req: express.Request, res: express.Response) => {
+    const sessionId = req.header("mcp-session-id");
+
+    try {
+      let session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (!session) {
+        if (sessionId) {
+          return sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        }
+        if (!isInitializeRequest(req.body)) {
+          return sendJsonRpcError(res, 400, "Bad Request: no session ID, and the request is not an initialize request");
+        }
+
+        // New session: each one gets its own server instance
+        let server: ReturnType<typeof createServer>;
+        let tokenHash: string | undefined;
+        if (options.multiTenant) {
+          const token = getBearerToken(req);
+          if (!token) {
+            return sendUnauthorized(res, "Missing bearer token: send your Unbrowse API key as 'Authorization: Bearer <key>'");
+          }
+          tokenHash = hashToken(token);
+          server = createServer({
+            config: createTenantConfig(options.config, token, req.header("x-credential-key")),
+            env: {},
+          });
+          console.error(`[INFO] Tenant session for key ${maskSecret(token)}`);
+        } else {
+          server = createServer({ config: options.config });
+        }
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          enableDnsRebindingProtection: true,
+          allowedHosts,
+          onsessioninitialized: (newSessionId) => {
+            sessions.set(newSessionId, { transport, server, lastActivity: Date.now(), tokenHash });
+            console.error(`[INFO] Session started: ${newSessionId} (${sessions.size} active)`);
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId && sessions.delete(transport.sessionId)) {
+            console.error(`[INFO] Session closed: ${transport.sessionId} (${sessions.size} active)`);
+          }
+        };
+
+        await server.connect(transport);
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!checkSessionToken(req, res, session)) return;
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, req.body);
+    } catch (error: any) {
+      console.error("[ERROR] Failed to handle MCP request:", error.message || error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  // GET opens the server-to-client event stream, DELETE ends the session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.header("mcp-session-id");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      return sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? `Session not found: ${sessionId}` : "Missing Mcp-Session-Id header");
+    }
+
+    if (!checkSessionToken(req, res, session)) return;
+
+    try {
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res);
+    } catch (error: any) {
+      console.error("[ERROR] Failed to handle MCP request:", error.message || error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+
+  // Close sessions whose client went away without sending DELETE
+  const sweepTimer = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const [sessionId, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        console.error(`[INFO] Closing idle session: ${sessionId}`);
+        void closeSession(sessionId);
+      }
+    }
+  }, 60 * 1000);
+  sweepTimer.unref();
+
+  const httpServer = await new Promise<ReturnType<typeof app.listen>>((resolve, reject) => {
+    const listener = app.listen(options.port, options.host, (error?: Error) => {
+      if (error) reject(error);
+      else resolve(listener);
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  allowedHosts = resolveAllowedHosts(options.host, port, options.allowedHosts);
+  allowedOrigins = allowedHosts.flatMap((host) => [`http://${host}`, `https://${host}`]).concat(options.corsOrigins);
+
+  console.error(`[INFO] Unbrowse MCP server listening on http://${options.host}:${port}/mcp`);
+  console.error(`[INFO] Accepted Host headers: ${allowedHosts.join(", ")}`);
+  if (options.authToken && !options.multiTenant) {
+    console.error("[INFO] Clients must send the UNBROWSE_HTTP_TOKEN bearer token");
+  }
+  if (options.multiTenant) {
+    console.error("[INFO] Multi-tenant mode: sessions authenticate with their own bearer API key");
+  }
+  console.error(
+    `[INFO] CORS: ${options.corsOrigins.length > 0 ? options.corsOrigins.join(", ") : "disabled (set UNBROWSE_CORS_ORIGINS to enable)"}`,
+  );
+
+  return async () => {
+    clearInterval(sweepTimer);
+    await Promise.all(Array.from(sessions.keys()).map(closeSession));
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  };
+}
+
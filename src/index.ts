@@ -7,7 +7,7 @@
  * - /cookiejar endpoint: Manages encrypted credentials with SECRET-based decryption
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import {
   createApiClient,
@@ -18,7 +18,35 @@ import {
   type UnbrowseApiClient,
   type UnbrowseX402Client,
 } from "./api-client.js";
-import { decryptCredentials } from "./crypto-utils.js";
+import {
+  FallbackBackend,
+  selectAuthMode,
+  type AbilityBackend,
+  type AbilityExecutionResult,
+} from "./ability-backend.js";
+import {
+  executeAbilityChain,
+  MAX_CHAIN_STEPS,
+  type ChainStep,
+} from "./ability-chain.js";
+import {
+  decryptCredentials,
+  decryptData,
+  encryptCredentialValue,
+  maskSecret,
+} from "./crypto-utils.js";
+import {
+  applyTransformCode,
+  executeWrapper,
+  type WrapperData,
+} from "./wrapper-executor-enhanced.js";
+import { BudgetExceededError, type BudgetLimits } from "./payment-budget.js";
+import { PaymentPolicyError, USDC_MINTS, X402_PRICES, type PaymentPolicy, type X402Operation } from "./x402-solana.js";
+import { parseDateBound, resolveLedgerPath } from "./payment-ledger.js";
+import { createPaymentSigner } from "./payment-signer.js";
+import { parseEnvCredentialOverrides } from "./env-credentials.js";
+import { configSchema } from "./config-schema.js";
+import { applyEnvConfig } from "./config-loader.js";
 import * as Sentry from "@sentry/node"
 
 // Initialize Sentry for error tracking (optional - set SENTRY_DSN env var to enable)
@@ -30,82 +58,129 @@ if (sentryDsn) {
     sendDefaultPii: false,
   });
 }
-// User-level config from smithery.yaml
-// Note: Auth validation happens at runtime to support env var fallbacks
-export const configSchema = z.object({
-  // x402 Payment authentication (pay-per-request with Solana USDC) - Recommended
-  solanaPrivateKey: z.string().optional().describe("Base58 encoded Solana private key for x402 payment-based authentication. No account required - just fund wallet with USDC."),
-  solanaRpcUrl: z.string().optional().describe("Custom Solana RPC URL (defaults to mainnet)."),
-
-  // Traditional API key/session token authentication
-  apiKey: z.string().optional().describe("Your Unbrowse API key from the dashboard (starts with re_). Alternative to solanaPrivateKey."),
-  sessionToken: z.string().optional().describe("Your session token (alternative to apiKey or solanaPrivateKey)."),
-
-  // Common options
-  password: z.string().optional().describe("Your encryption password for credential decryption. Only required if abilities need credentials."),
-  debug: z.boolean().default(false).describe("Enable debug logging"),
-  enableIndexTool: z.boolean().default(false).describe("Enable the ingest_api_endpoint tool for indexing new APIs"),
-  devMode: z.boolean().default(false).describe("Enable developer mode to see detailed API usage documentation in search results (RAG mode)"),
-});
+// User-level config from smithery.yaml (re-exported for Smithery)
+export { configSchema };
 
 export default function createServer({
-  config,
+  config: givenConfig,
+  env = process.env,
 }: {
   config: z.infer<typeof configSchema>; // Define your config in smithery.yaml
+  env?: NodeJS.ProcessEnv; // Settings the config leaves unset, and credential overrides; multi-tenant sessions get none
 }) {
   console.error("[INFO] createServer called - starting initialization");
 
-  // Apply environment variable fallbacks
-  const apiKey = config.apiKey || process.env.UNBROWSE_API_KEY;
-  const sessionToken = config.sessionToken || process.env.UNBROWSE_SESSION_TOKEN;
-  const solanaPrivateKey = config.solanaPrivateKey || process.env.SOLANA_PRIVATE_KEY || process.env.UNBROWSE_SOLANA_KEY;
-  const solanaRpcUrl = config.solanaRpcUrl || process.env.SOLANA_RPC_URL;
-  const password = config.password || process.env.UNBROWSE_PASSWORD || process.env.UNBROWSE_CREDENTIAL_KEY;
-  const devMode = config.devMode || process.env.DEV_MODE === 'true' || process.env.UNBROWSE_DEV_MODE === 'true';
+  // Smithery passes only its parsed config, so environment variables fill what it leaves unset
+  const config = applyEnvConfig(givenConfig, env);
+  const {
+    apiKey,
+    sessionToken,
+    solanaPrivateKey,
+    solanaKeypairPath,
+    x402SignerCommand,
+    x402SignerPublicKey,
+    solanaRpcUrl,
+    proxyUrl,
+    password,
+    devMode,
+    wrapperEnvAllowlist,
+    wrapperEgressAllowlist,
+    registerFavoriteTools,
+    maxFavoriteTools,
+    favoritesRefreshIntervalSeconds,
+  } = config;
+  const hasPaymentSigner = !!(solanaPrivateKey || solanaKeypairPath || x402SignerCommand);
+  const apiBaseUrl = (config.apiBaseUrl || UNBROWSE_API_BASE_URL).replace(/\/+$/, "");
+  const sandboxLimits = {
+    timeoutMs: config.wrapperTimeoutMs,
+    memoryLimitMb: config.wrapperMemoryLimitMb,
+  };
+
+  const budgetLimits: BudgetLimits = {
+    perCallUsdc: config.x402MaxPerCallUsdc,
+    sessionUsdc: config.x402SessionBudgetUsdc,
+    dailyUsdc: config.x402DailyBudgetUsdc,
+    perAbilityUsdc: config.x402PerAbilityBudgetUsdc,
+    abilityUsdc: config.x402AbilityBudgets,
+  };
+
+  const paymentPolicy: PaymentPolicy = {
+    allowedRecipients: config.x402AllowedRecipients,
+    allowMainnet: config.x402AllowMainnet,
+  };
+  const confirmAboveCents = config.x402ConfirmAboveCents;
+  const lowBalanceExecutions = config.x402LowBalanceExecutions;
+  const ledgerPath = resolveLedgerPath(config.x402LedgerPath);
 
   // Determine authentication mode: x402 (Solana payment) or traditional (API key/session token)
-  const useX402Mode = !!solanaPrivateKey && !apiKey && !sessionToken;
+  const authSelection = selectAuthMode({
+    apiKey,
+    sessionToken,
+    hasPaymentSigner,
+    x402Fallback: config.x402Fallback,
+  });
+  const useX402Mode = authSelection?.mode === "x402";
   const authToken = apiKey || sessionToken;
+  const x402Fallback = !!authSelection?.x402Fallback;
 
   // Validate that at least one auth method is provided
-  if (!authToken && !solanaPrivateKey) {
+  if (!authSelection) {
     throw new Error(
-      "Authentication required: Provide either apiKey, sessionToken, or solanaPrivateKey via config or environment variables " +
-      "(UNBROWSE_API_KEY, UNBROWSE_SESSION_TOKEN, or SOLANA_PRIVATE_KEY)"
+      "Authentication required: Provide either apiKey, sessionToken, or an x402 signer (solanaPrivateKey, solanaKeypairPath or x402SignerCommand) via config or environment variables " +
+      "(UNBROWSE_API_KEY, UNBROWSE_SESSION_TOKEN, SOLANA_PRIVATE_KEY, SOLANA_KEYPAIR_PATH or UNBROWSE_X402_SIGNER_COMMAND)"
     );
   }
 
-  // Detect auth type
-  let authType: string;
-  if (useX402Mode) {
-    authType = "x402_solana";
-  } else if (apiKey && apiKey.startsWith("re_")) {
-    authType = "api_key";
-  } else {
-    authType = "session_token";
-  }
-  console.error(`[INFO] Authentication type: ${authType}`);
+  const authType = useX402Mode ? "x402_solana" : authSelection.mode;
+  console.error(`[INFO] Authentication type: ${authType} (${authSelection.reason})`);
 
   if (devMode) {
     console.error(`[INFO] Dev mode enabled: Search results will include API usage documentation`);
   }
 
-  // Create the appropriate API client based on auth mode
-  let apiClient: UnbrowseApiClient;
+  // Local execution fetches wrapper code and credentials with the API key, so it is not available in x402 mode
+  let executionMode: "remote" | "local" = config.executionMode;
+  if (executionMode === "local" && useX402Mode) {
+    console.warn(`[WARN] Local execution mode requires an API key or session token, falling back to remote execution`);
+    executionMode = "remote";
+  }
+  console.error(`[INFO] Execution mode: ${executionMode}`);
+
+  // Create the backend for the auth mode. Tool handlers search, execute and look up
+  // abilities through `backend`; apiClient (stored credentials, wrapper code) and
+  // x402Client (payments, wallet) are only used by the tools specific to them.
+  const apiClient: UnbrowseApiClient | null = useX402Mode ? null : createApiClient(authToken!, apiBaseUrl);
   let x402Client: UnbrowseX402Client | null = null;
+  let backend: AbilityBackend;
+
+  if (hasPaymentSigner && (useX402Mode || x402Fallback)) {
+    const signer = createPaymentSigner({
+      privateKey: solanaPrivateKey,
+      keypairPath: solanaKeypairPath,
+      signerCommand: x402SignerCommand,
+      signerPublicKey: x402SignerPublicKey,
+    })!;
+    x402Client = createX402ApiClient(signer, solanaRpcUrl, { baseUrl: apiBaseUrl, budget: budgetLimits, paymentPolicy, ledgerPath });
+    if (x402Client.getBudgetStatus().limited) {
+      console.error(`[x402] Spending limits: ${JSON.stringify(budgetLimits)}`);
+    }
+  }
 
   if (useX402Mode) {
     // x402 mode - pay-per-request with Solana USDC
     console.error(`[INFO] Using x402 payment mode with Solana USDC`);
-    x402Client = createX402ApiClient(solanaPrivateKey!, solanaRpcUrl);
-    // Create a wrapper that matches UnbrowseApiClient interface for backward compatibility
-    // The x402Client will be used directly for search and execute operations
-    apiClient = createApiClient("x402_placeholder"); // Placeholder - won't be used for authed requests
-    console.error(`[INFO] x402 client created with wallet: ${x402Client.getWalletAddress()}`);
+    console.error(`[INFO] x402 client created with wallet: ${x402Client!.getWalletAddress()}`);
+    backend = x402Client!;
   } else {
     // Traditional API key/session token mode
-    apiClient = createApiClient(authToken!);
-    console.error(`[INFO] API client created with base URL: ${UNBROWSE_API_BASE_URL}`);
+    console.error(`[INFO] API client created with base URL: ${apiBaseUrl}`);
+    backend = apiClient!;
+
+    if (x402Client) {
+      // Hybrid mode: the API key is preferred, x402 pays for calls once the account is out of tokens
+      backend = new FallbackBackend(apiClient!, x402Client);
+      console.error(`[INFO] Hybrid mode: x402 pays when the account is out of tokens (wallet: ${x402Client.getWalletAddress()})`);
+    }
   }
 
   const mcpServer = new McpServer({
@@ -123,6 +198,76 @@ export default function createServer({
 
   console.error("[INFO] McpServer instance created");
 
+  // Structured details for x402 payments refused before signing (budget or payment policy)
+  const paymentErrorFields = (error: any) => {
+    if (error instanceof BudgetExceededError) return { code: error.code, budget: error.details };
+    if (error instanceof PaymentPolicyError) return { code: error.code, violations: error.violations };
+    return {};
+  };
+
+  /**
+   * Cost preflight for batches x402 may pay for (x402 mode, or hybrid mode where it is
+   * the fallback and the estimate is the worst case). Returns a tool response when the
+   * batch should not run (a dry-run estimate or a declined confirmation), or null to proceed.
+   * A requested confirm_above_cents can only lower the configured threshold.
+   */
+  const preflightPaidBatch = async (
+    payments: Array<{ operation: X402Operation; abilityId?: string }>,
+    options: { dryRun?: boolean; confirmAboveCents?: number },
+  ): Promise<Record<string, any> | null> => {
+    if (!x402Client) {
+      return options.dryRun
+        ? { success: true, dryRun: true, paymentMode: authType, estimate: null, note: "Requests are not paid per call in this authentication mode" }
+        : null;
+    }
+
+    const fallbackOnly = !backend.capabilities.paidRequests;
+    const thresholds = [confirmAboveCents, options.confirmAboveCents].filter((value): value is number => value !== undefined);
+    const threshold = thresholds.length > 0 ? Math.min(...thresholds) : undefined;
+    if (options.dryRun) {
+      return {
+        success: true,
+        dryRun: true,
+        paymentMode: fallbackOnly ? authType : "x402_solana",
+        estimate: await x402Client.estimateCost(payments),
+        ...(fallbackOnly ? { note: `x402 only pays for requests the ${authType} account has no tokens left for; the estimate assumes it pays for all of them` } : {}),
+      };
+    }
+    if (threshold === undefined) {
+      return null;
+    }
+
+    const estimate = await x402Client.estimateCost(payments, { includeBalance: false });
+    if (estimate.projectedCents <= threshold) {
+      return null;
+    }
+
+    const declined = (reason: string) => ({ success: false, cancelled: true, error: reason, estimate });
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      return declined(
+        `Batch ${fallbackOnly ? "could" : "would"} cost ${estimate.projectedCents} cents, above the ${threshold} cent confirmation threshold, and this client cannot confirm (no elicitation support). Nothing was paid.`
+      );
+    }
+
+    console.error(`[x402] Asking for confirmation of a ${estimate.projectedCents} cent batch (threshold ${threshold} cents)`);
+    const answer = await server.server.elicitInput({
+      message: fallbackOnly
+        ? `If your account runs out of tokens, this batch of ${payments.length} requests is paid with x402 and could cost up to ${estimate.projectedCost} (${estimate.projectedCents} cents). Proceed?`
+        : `This batch of ${payments.length} paid requests will cost about ${estimate.projectedCost} (${estimate.projectedCents} cents). Proceed?`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          confirm: { type: "boolean", title: "Proceed", description: `Spend up to ${estimate.projectedCost}` },
+        },
+        required: ["confirm"],
+      },
+    });
+    if (answer.action !== "accept" || answer.content?.confirm !== true) {
+      return declined(`Batch not confirmed (${answer.action === "accept" ? "declined" : answer.action}), nothing was paid`);
+    }
+    return null;
+  };
+
   const accessibleAbilities: IndexedAbility[] = [];
   const availableCredentialKeys = new Set<string>();
   const credentialCache = new Map<string, Record<string, string> | null>();
@@ -139,35 +284,10 @@ export default function createServer({
       .replace(/^_|_$/g, "")
       .toUpperCase();
 
-  const envCredentialOverrides = (() => {
-    const mapping = new Map<string, string>();
-    const candidateVarNames = [
-      "UNBROWSE_TOOL_HEADERS",
-      "UNBROWSE_DYNAMIC_HEADERS",
-      "TOOL_DYNAMIC_HEADERS",
-      "MCP_TOOL_HEADERS",
-    ];
-
-    for (const varName of candidateVarNames) {
-      const raw = process.env[varName];
-      if (!raw) continue;
-
-      try {
-        const parsed = JSON.parse(raw);
-        if (parsed && typeof parsed === "object") {
-          for (const [rawKey, rawValue] of Object.entries(parsed)) {
-            if (typeof rawKey === "string" && typeof rawValue === "string") {
-              mapping.set(rawKey, rawValue);
-            }
-          }
-        }
-      } catch (error) {
-        console.warn(`[WARN] Failed to parse ${varName} as JSON:`, error);
-      }
-    }
-
-    return mapping;
-  })();
+  // Dynamic header key -> value and the JSON env var it came from
+  const envCredentialOverrides = parseEnvCredentialOverrides(env, (varName, error) => {
+    console.warn(`[WARN] Failed to parse ${varName} as JSON:`, error);
+  });
 
   const getEnvCandidatesForKey = (key: string): string[] => {
     const [rawDomain = "", rawHeader = ""] = key.split("::");
@@ -194,10 +314,6 @@ export default function createServer({
       baseCandidates.add(`${domainNoWww}_${headerSegment}`);
     }
 
-    if (headerSegment) {
-      baseCandidates.add(headerSegment);
-    }
-
     const expanded = new Set<string>();
     const prefixes = ["UNBROWSE", "ABILITY", "TOOL", "MCP"];
 
@@ -213,23 +329,26 @@ export default function createServer({
     return Array.from(expanded);
   };
 
-  const envCredentialCache = new Map<string, string | null>();
+  const envCredentialCache = new Map<string, { value: string; source: string } | null>();
 
-  const getEnvCredentialForKey = (key: string): string | undefined => {
+  // Resolves a dynamic header key from the environment, along with the env var that provided it
+  const resolveEnvCredentialForKey = (key: string): { value: string; source: string } | undefined => {
     if (envCredentialCache.has(key)) {
       const cached = envCredentialCache.get(key);
       return cached === null ? undefined : cached;
     }
 
     let value: string | undefined;
+    let source = "";
 
     if (envCredentialOverrides.has(key)) {
-      value = envCredentialOverrides.get(key);
+      ({ value, source } = envCredentialOverrides.get(key)!);
     } else {
       for (const candidate of getEnvCandidatesForKey(key)) {
-        const envValue = process.env[candidate];
+        const envValue = env[candidate];
         if (envValue !== undefined) {
           value = envValue;
+          source = candidate;
           break;
         }
       }
@@ -255,13 +374,12 @@ export default function createServer({
             apiKeyCandidates.add(`${domainNoWww}__API_KEY`);
           }
 
-          apiKeyCandidates.add("UNBROWSE_API_KEY");
-          apiKeyCandidates.add("API_KEY");
 
           for (const candidate of apiKeyCandidates) {
-            const envValue = process.env[candidate];
+            const envValue = env[candidate];
             if (envValue !== undefined) {
               value = envValue;
+              source = candidate;
               break;
             }
           }
@@ -272,8 +390,9 @@ export default function createServer({
     if (typeof value === "string") {
       const trimmed = value.trim();
       if (trimmed.length > 0) {
-        envCredentialCache.set(key, trimmed);
-        return trimmed;
+        const resolved = { value: trimmed, source };
+        envCredentialCache.set(key, resolved);
+        return resolved;
       }
     }
 
@@ -281,6 +400,9 @@ export default function createServer({
     return undefined;
   };
 
+  const getEnvCredentialForKey = (key: string): string | undefined =>
+    resolveEnvCredentialForKey(key)?.value;
+
   const getEnvCredentialsForAbility = (ability: IndexedAbility): Record<string, string> => {
     const credentials: Record<string, string> = {};
     if (!ability.dynamic_header_keys || ability.dynamic_header_keys.length === 0) {
@@ -335,10 +457,21 @@ export default function createServer({
   let initializationPromise: Promise<void> | null = null;
   let isInitialized = false;
 
-  // Helper function to register an ability as an MCP tool (simplified version)
-  const registerAbilityAsTool = (ability: IndexedAbility): void => {
-    const toolName = ability.ability_name;
+  // Favorite abilities currently registered as tools, keyed by abilityId
+  const favoriteTools = new Map<string, { toolName: string; tool: RegisteredTool }>();
+
+  // Tool names are limited to [a-zA-Z0-9_-] and 64 characters by most MCP clients
+  const toToolName = (value: string): string =>
+    value
+      .trim()
+      .replace(/[^a-zA-Z0-9_-]/g, "_")
+      .replace(/_+/g, "_")
+      .replace(/^_|_$/g, "")
+      .toLowerCase()
+      .slice(0, 64);
 
+  // Helper function to register an ability as an MCP tool (simplified version)
+  const registerAbilityAsTool = (ability: IndexedAbility, toolName: string): RegisteredTool => {
     // Build description with dependency information
     const toolDescription = formatAbilityDescription(ability);
 
@@ -368,7 +501,7 @@ export default function createServer({
     }
 
     // Register the tool - execution will use execute_ability internally
-    server.registerTool(
+    const tool = server.registerTool(
       toolName,
       {
         title: ability.ability_name.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase()),
@@ -385,15 +518,7 @@ export default function createServer({
           console.error(`[DEBUG] Executing ability - ID: ${ability.ability_id}, Name: ${ability.ability_name}`);
 
           // Use x402 client if in x402 mode, otherwise use traditional API client
-          let result;
-          if (useX402Mode && x402Client) {
-            console.error(`[x402] Using x402 client for registered tool: ${ability.ability_name}`);
-            result = await x402Client.executeAbility(ability.ability_id, payload, {});
-          } else {
-            result = await apiClient.executeAbility(ability.ability_id, payload, {
-              credentialKey: password,
-            });
-          }
+          const result = await executeAbilityWithClient(ability.ability_id, payload);
 
           // Handle error responses
           if (!result.success) {
@@ -412,7 +537,9 @@ export default function createServer({
                   success: false,
                   error: errorMessage,
                   credentialsExpired: result.credentialsExpired,
+                  loginAbilities: result.loginAbilities,
                   defunct: result.defunct,
+                  paidBy: result.paidBy,
                   executedAt: result.result?.executedAt || new Date().toISOString(),
                 }, null, 2),
               }],
@@ -429,6 +556,7 @@ export default function createServer({
                 executedAt: result.result?.executedAt,
                 executionTimeMs: result.result?.executionTimeMs,
                 health: result.health,
+                paidBy: result.paidBy,
               }, null, 2),
             }],
           };
@@ -439,6 +567,7 @@ export default function createServer({
               text: JSON.stringify({
                 success: false,
                 error: error.message || String(error),
+                ...paymentErrorFields(error),
                 executedAt: new Date().toISOString(),
               }, null, 2),
             }],
@@ -448,6 +577,7 @@ export default function createServer({
     );
 
     console.error(`[INFO] Registered favorite ability as tool: ${toolName}`);
+    return tool;
   };
 
   const candidateVariantsFromDomain = (domain: string): string[] => {
@@ -477,6 +607,9 @@ export default function createServer({
     if (credentialCache.has(candidate)) {
       return credentialCache.get(candidate) || null;
     }
+    if (!apiClient) {
+      return null;
+    }
 
     try {
       const encryptedCredentials = await apiClient.getCookieJar(candidate);
@@ -558,297 +691,449 @@ export default function createServer({
   };
 
 
+  /**
+   * Registers a favorite under its ability name. Name collision rules:
+   * 1. Use the sanitized ability name (e.g., "github_create_issue")
+   * 2. If that name is taken (built-in tool or another favorite), append the
+   *    first 8 characters of the abilityId
+   * 3. If that is taken too, skip the favorite - it stays executable by ID
+   */
+  const registerFavoriteTool = (ability: IndexedAbility): boolean => {
+    const baseName = toToolName(ability.ability_name) || toToolName(ability.ability_id);
+    const idSuffix = toToolName(ability.ability_id).slice(0, 8);
+    const candidates = [baseName, `${baseName.slice(0, 55)}_${idSuffix}`];
+
+    for (const toolName of candidates) {
+      try {
+        const tool = registerAbilityAsTool(ability, toolName);
+        favoriteTools.set(ability.ability_id, { toolName, tool });
+        return true;
+      } catch (error: any) {
+        if (!String(error.message).includes("already registered")) {
+          throw error;
+        }
+        console.error(`[DEBUG] Tool name ${toolName} is taken, trying next candidate for ${ability.ability_id}`);
+      }
+    }
+
+    console.warn(`[WARN] Skipping favorite ${ability.ability_id}: no free tool name (tried ${candidates.join(", ")})`);
+    return false;
+  };
+
+  /**
+   * Diffs the user's favorites against the registered favorite tools.
+   * Registering or removing a tool sends tools/list_changed once a client is
+   * connected; before that, the tools are simply part of the first tools/list.
+   */
+  const syncFavoriteTools = async (): Promise<void> => {
+    const favoritesResult = await backend.listAbilities({ favorites: true });
+
+    const favorites: IndexedAbility[] = [];
+    const seenAbilityIds = new Set<string>();
+    for (const ability of favoritesResult.abilities || []) {
+      // Skip duplicates
+      if (seenAbilityIds.has(ability.ability_id)) {
+        continue;
+      }
+      seenAbilityIds.add(ability.ability_id);
+
+      // Cache by abilityId for execution, even if it doesn't get its own tool
+      abilityCache.set(ability.ability_id, ability);
+      if (!accessibleAbilities.some((a) => a.ability_id === ability.ability_id)) {
+        accessibleAbilities.push(ability);
+      }
+
+      if (await abilityHasCredentialCoverage(ability)) {
+        favorites.push(ability);
+      }
+    }
+
+    if (favorites.length > maxFavoriteTools) {
+      console.warn(
+        `[WARN] ${favorites.length} favorites available, registering the first ${maxFavoriteTools} as tools (maxFavoriteTools)`,
+      );
+    }
+    const selected = favorites.slice(0, maxFavoriteTools);
+    const selectedIds = new Set(selected.map((ability) => ability.ability_id));
+
+    let removedCount = 0;
+    for (const [abilityId, { toolName, tool }] of favoriteTools) {
+      if (!selectedIds.has(abilityId)) {
+        tool.remove();
+        favoriteTools.delete(abilityId);
+        removedCount++;
+        console.error(`[INFO] Removed favorite tool: ${toolName}`);
+      }
+    }
+
+    let registeredCount = 0;
+    for (const ability of selected) {
+      if (favoriteTools.has(ability.ability_id)) {
+        continue;
+      }
+      try {
+        if (registerFavoriteTool(ability)) {
+          registeredCount++;
+        }
+      } catch (error: any) {
+        console.error(`[ERROR] Failed to register ${ability.ability_id}:`, error.message);
+      }
+    }
+
+    if (registeredCount > 0 || removedCount > 0) {
+      console.error(
+        `[INFO] Favorite tools updated: ${registeredCount} registered, ${removedCount} removed, ${favoriteTools.size} total`,
+      );
+    }
+  };
+
   // Async initialization function
   const ensureInitialized = async (): Promise<void> => {
     if (isInitialized) return;
     if (initializationPromise) return initializationPromise;
-    return
-    // initializationPromise = (async () => {
-    //   // Step 1: Load favorites and register them as tools
-    //   try {
-    //     console.error('[INFO] Loading favorited abilities...');
-    //     const favoritesResult = await apiClient.listAbilities({ favorites: true });
-    //     const favoriteAbilities = favoritesResult.abilities || [];
-    //     console.error(`[INFO] Found ${favoriteAbilities.length} favorited abilities`);
-
-    //     const registeredAbilityIds = new Set<string>();
-    //     let registeredCount = 0;
-
-    //     for (const ability of favoriteAbilities) {
-    //       // Skip duplicates
-    //       if (registeredAbilityIds.has(ability.ability_id)) {
-    //         console.error(`[DEBUG] Skipping duplicate favorite: ${ability.ability_id}`);
-    //         continue;
-    //       }
-
-    //       if (await abilityHasCredentialCoverage(ability)) {
-    //         accessibleAbilities.push(ability);
-    //         // Cache by abilityId for execution
-    //         abilityCache.set(ability.ability_id, ability);
-
-    //         // Register as individual MCP tool
-    //         try {
-    //           registerAbilityAsTool(ability);
-    //           registeredAbilityIds.add(ability.ability_id);
-    //           registeredCount++;
-    //         } catch (error: any) {
-    //           console.error(`[ERROR] Failed to register ${ability.ability_id}:`, error.message);
-    //         }
-    //       }
-    //     }
-
-    //     console.error(`[INFO] Registered ${registeredCount} favorite abilities as tools`);
-
-    //     // Notify MCP client that tools have been added
-    //     // We need to wait for the client to connect before sending the notification
-    //     if (registeredCount > 0) {
-    //       // Poll until client is connected, then send notification
-    //       const waitForConnection = async () => {
-    //         const maxWaitTime = 30000; // 30 seconds max
-    //         const pollInterval = 100; // Check every 100ms
-    //         const startTime = Date.now();
-
-    //         while (!server.isConnected()) {
-    //           if (Date.now() - startTime > maxWaitTime) {
-    //             console.warn('[WARN] Client did not connect within 30 seconds, notification not sent');
-    //             return;
-    //           }
-    //           await new Promise(resolve => setTimeout(resolve, pollInterval));
-    //         }
-
-    //         // Client is now connected, send notification
-    //         server.sendToolListChanged();
-    //         console.error('[INFO] Client connected, sent tools/list_changed notification');
-    //       };
-
-    //       // Don't await - let this run in background
-    //       waitForConnection().catch(error => {
-    //         console.error('[ERROR] Failed to send tool list changed notification:', error);
-    //       });
-    //     }
-    //   } catch (error: any) {
-    //     console.error(`[ERROR] Failed to load favorites:`, error.message);
-    //   }
-
-    //   // Step 2: Fetch all abilities from the API to populate the accessible abilities list
-    //   // Pre-populate the cache with all abilities that have credential coverage
-    //   try {
-    //     const result = await apiClient.listAbilities();
-    //     const candidateAbilities = result.abilities || [];
-    //     console.error(
-    //       `[INFO] Loaded ${candidateAbilities.length} abilities from API (available for search)`,
-    //     );
-
-    //     // Store them for credential coverage checking AND cache them
-    //     // Skip abilities already added from favorites
-    //     for (const ability of candidateAbilities) {
-    //       // Skip if already cached (from favorites)
-    //       if (abilityCache.has(ability.ability_id)) {
-    //         continue;
-    //       }
-
-    //       if (await abilityHasCredentialCoverage(ability)) {
-    //         accessibleAbilities.push(ability);
-    //         abilityCache.set(ability.ability_id, ability);
-    //       }
-    //     }
-
-    //     console.error(
-    //       `[INFO] ${accessibleAbilities.length} abilities available with credential coverage`,
-    //     );
-    //     console.error(
-    //       `[INFO] Pre-cached ${abilityCache.size} abilities for immediate execution`,
-    //     );
-    //     if (availableCredentialKeys.size > 0) {
-    //       console.error(
-    //         `[INFO] Detected ${availableCredentialKeys.size} credential key(s) from decrypted cookie jar entries`,
-    //       );
-    //     }
-    //   } catch (error: any) {
-    //     console.error(`[ERROR] Failed to load abilities from API:`, error.message);
-    //     console.error(`[ERROR] Make sure the Unbrowse API is accessible at ${UNBROWSE_API_BASE_URL}`);
-    //     console.error(`[ERROR] Verify your API key is valid and not expired`);
-    //   }
-
-    //   isInitialized = true;
-    // })();
-
-    // return initializationPromise;
+
+    initializationPromise = (async () => {
+      try {
+        console.error('[INFO] Loading favorited abilities...');
+        await syncFavoriteTools();
+      } catch (error: any) {
+        console.error(`[ERROR] Failed to load favorites:`, error.message);
+        console.error(`[ERROR] Make sure the Unbrowse API is accessible at ${apiBaseUrl}`);
+      }
+
+      isInitialized = true;
+    })();
+
+    return initializationPromise;
+  };
+
+  // Every backend shares this response shape; x402 responses just omit the credential/health extras
+  type AbilityExecutionResponse = AbilityExecutionResult;
+
+  // Wrapper data for local execution, keyed by abilityId
+  const wrapperCache = new Map<string, WrapperData>();
+
+  /**
+   * Resolves the credentials an ability needs from env overrides first, then
+   * from the decrypted cookie jar. Values stay in this process.
+   */
+  const resolveLocalCredentials = async (
+    ability: IndexedAbility,
+  ): Promise<{ credentials: Record<string, string>; missing: string[] }> => {
+    const credentials = getEnvCredentialsForAbility(ability);
+    const missing: string[] = [];
+
+    for (const key of ability.dynamic_header_keys || []) {
+      if (credentials[key] !== undefined) continue;
+
+      let found = false;
+      for (const candidate of deriveCandidatesForKey(ability, key)) {
+        const jar = await fetchCredentialsForCandidate(candidate);
+        if (jar && jar[key] !== undefined) {
+          credentials[key] = jar[key];
+          found = true;
+          break;
+        }
+      }
+
+      if (!found) {
+        missing.push(key);
+      }
+    }
+
+    return { credentials, missing };
+  };
+
+  // Runs an ability's wrapper on this machine and maps the result to the server response shape
+  const executeAbilityLocally = async (
+    abilityId: string,
+    payload: Record<string, any>,
+    transformCode?: string,
+  ): Promise<AbilityExecutionResponse> => {
+    const startTime = Date.now();
+    console.error(`[INFO] Executing ability locally: ${abilityId}`);
+
+    let wrapperData = wrapperCache.get(abilityId);
+    let ability = abilityCache.get(abilityId);
+    if (!wrapperData || !ability) {
+      const abilityResponse = await backend.getAbility(abilityId);
+      ability = abilityResponse.ability;
+      abilityCache.set(abilityId, ability);
+
+      wrapperData = abilityResponse.wrapper;
+      if (!wrapperData && apiClient) {
+        wrapperData = (await apiClient.getAbilityWrapper(abilityId)).wrapper;
+      }
+      if (!wrapperData?.input?.wrapper_code) {
+        throw new Error(`Wrapper code is not available for ${abilityId}, it cannot be executed locally`);
+      }
+      wrapperCache.set(abilityId, wrapperData);
+    }
+
+    // The wrapper's own key list may be more complete than the search metadata
+    const dynamicHeaderKeys = Array.from(
+      new Set([...(ability.dynamic_header_keys || []), ...(wrapperData.input.dynamic_header_keys || [])]),
+    );
+    const { credentials, missing } = await resolveLocalCredentials({
+      ...ability,
+      dynamic_header_keys: dynamicHeaderKeys,
+    });
+
+    if (missing.length > 0) {
+      return {
+        success: false,
+        error: `Missing credentials for: ${missing.join(", ")}. Store them with store_credentials (requires a password) or provide them via environment overrides.`,
+      };
+    }
+
+    const result = await executeWrapper(abilityId, payload, {}, credentials, wrapperData, undefined, apiClient, {
+      envAllowlist: wrapperEnvAllowlist,
+      limits: sandboxLimits,
+      abilityDomain: ability.domain,
+      egressAllowlist: wrapperEgressAllowlist,
+      proxyUrl,
+    });
+
+    let body = result.responseBody;
+    if (result.success && transformCode) {
+      body = await applyTransformCode(transformCode, body, sandboxLimits);
+    }
+
+    return {
+      success: result.success,
+      result: result.statusCode !== undefined
+        ? {
+            statusCode: result.statusCode,
+            abilityName: ability.ability_name,
+            domain: ability.domain || wrapperData.input.service_name,
+            body,
+            headers: result.responseHeaders || {},
+            executedAt: result.executedAt,
+            executionTimeMs: Date.now() - startTime,
+          }
+        : undefined,
+      error: result.success ? undefined : result.error || `Request failed with status ${result.statusCode}`,
+      credentialsExpired: result.credentialsExpired,
+      loginAbilities: result.loginAbilities,
+    };
+  };
+
+  // Env-provided dynamic headers for an ability, forwarded with remote executions
+  const getEnvCredentialsForExecution = async (abilityId: string): Promise<Record<string, string>> => {
+    let ability = abilityCache.get(abilityId);
+    if (!ability) {
+      try {
+        ability = (await backend.getAbility(abilityId)).ability;
+        abilityCache.set(abilityId, ability);
+      } catch (error: any) {
+        console.warn(`[WARN] Could not look up credential keys for ${abilityId}: ${error.message || error}`);
+        return {};
+      }
+    }
+
+    const credentials = getEnvCredentialsForAbility(ability);
+    if (Object.keys(credentials).length > 0) {
+      console.error(`[INFO] Forwarding env credentials for ${abilityId}: ${Object.keys(credentials).join(", ")}`);
+    }
+    return credentials;
+  };
+
+  // Executes a single ability locally or through the backend
+  const executeAbilityWithClient = async (
+    abilityId: string,
+    payload: Record<string, any>,
+    transformCode?: string,
+  ): Promise<AbilityExecutionResponse> => {
+    if (executionMode === "local") {
+      return executeAbilityLocally(abilityId, payload, transformCode);
+    }
+
+    const envCredentials = await getEnvCredentialsForExecution(abilityId);
+    const credentials = Object.keys(envCredentials).length > 0 ? envCredentials : undefined;
+
+    // The credential key decrypts stored credentials; backends without them ignore it
+    return backend.executeAbility(abilityId, payload, { transformCode, credentialKey: password, credentials });
   };
 
-//   // Tool: Execute Ability
-//   server.registerTool(
-//     "execute_ability",
-//     {
-//       title: "Execute Ability",
-//       description:
-//         "Executes a specific ability by abilityId with the provided parameters. This is always using a stringified json input for params.",
-//       inputSchema: {
-//         ability_id: z
-//           .string()
-//           .describe("The abilityId to execute (from search results or list_abilities)."),
-//         params: z
-//           .union([z.string(), z.record(z.any())])
-//           .optional()
-//           .describe("Parameters to pass to the ability (based on its input schema). Prefers to be a JSON string not an object. Example string: '{\"token_symbol\": \"$fdry\", \"limit\": 10}' or object: {\"token_symbol\": \"$fdry\", \"limit\": 10}."),
-//         transform_code: z
-//           .string()
-//           .optional()
-//           .describe(`Optional JavaScript code to transform/process the API response body.
-
-// CRITICAL: The data parameter is ALREADY A PARSED JAVASCRIPT OBJECT. Do NOT use JSON.parse() - it will fail!
-
-// The transform function receives ONLY the parsed response body from the API (the 'responseBody' field), NOT the entire execution result wrapper.
-
-// For example, if the execution returns:
-// {
-//   "success": true,
-//   "statusCode": 200,
-//   "responseBody": { "results": [...], "total": 100 },
-//   ...
-// }
-
-// Your transform function receives the ALREADY-PARSED object: { "results": [...], "total": 100 }
-
-// CORRECT transform examples:
-
-// 1. Extract array from nested results:
-// (data) => data.results
-
-// 2. Filter and map array items:
-// (data) => data.results.map(item => ({ name: item.user_name, image: item.profile_image_url }))
-
-// 3. Aggregate/summarize data:
-// (data) => ({ total: data.results.length, avgPrice: data.results.reduce((sum, item) => sum + item.price, 0) / data.results.length })
-
-// 4. Search/filter results:
-// (data) => data.results.filter(item => item.status === 'active' && item.price > 100)
-
-// 5. Extract nested fields:
-// (data) => data.results.map(r => r.metadata.id)
-
-// INCORRECT examples (DO NOT DO THIS):
-// ❌ (data) => JSON.parse(data).results  // WRONG - data is already an object, not a string!
-// ❌ (data) => JSON.parse(data)  // WRONG - will throw "[object Object] is not valid JSON"
-
-// The code is executed in a safe sandbox and must be a valid arrow function or function expression.`),
-//       },
-//     },
-//     async ({ ability_id, params, transform_code }) => {
-//       try {
-//         // await ensureInitialized();
-
-//         console.error(`[TRACE] execute_ability tool called with ability_id: ${ability_id}`);
-//         console.error(`[TRACE] Executing ability ${ability_id} on server...`);
-
-//         // Parse params to object (handle both string and object input)
-//         const payload: Record<string, any> = params
-//           ? (typeof params === 'string' ? JSON.parse(params) : params)
-//           : {};
-//         console.error(`[TRACE] Params:`, payload);
-
-//         // Execute ability on the server with credential key from config
-//         // According to MCP_EXECUTION_GUIDE.md, password is the credential key
-//         const result = await apiClient.executeAbility(ability_id, payload, {
-//           transformCode: transform_code,
-//           credentialKey: password,
-//         });
-
-//         if (config.debug) {
-//           console.error(
-//             `[DEBUG] Execution result: ${result.success ? "SUCCESS" : "FAILED"}`,
-//           );
-//         }
-
-//         // Handle error responses
-//         if (!result.success) {
-//           let errorMessage = result.error || 'Execution failed';
-
-//           if (result.credentialsExpired) {
-//             errorMessage += '\n\nCredentials have expired. Please re-authenticate with the service.';
-//           }
-
-//           if (result.defunct) {
-//             errorMessage += `\n\nThis ability has been marked as defunct (health score: ${result.healthScore}). Please search for an alternative.`;
-//           }
-
-//           return {
-//             content: [
-//               {
-//                 type: "text",
-//                 text: JSON.stringify(
-//                   {
-//                     success: false,
-//                     error: errorMessage,
-//                     credentialsExpired: result.credentialsExpired,
-//                     defunct: result.defunct,
-//                     healthScore: result.healthScore,
-//                     executedAt: result.result?.executedAt || new Date().toISOString(),
-//                   },
-//                   null,
-//                   2
-//                 ),
-//               },
-//             ],
-//           };
-//         }
-
-//         // Prepare success response with health information
-//         const responseData = {
-//           // success: result.success,
-//           // statusCode: result.result?.statusCode,
-//           abilityName: result.result?.abilityName,
-//           domain: result.result?.domain,
-//           responseBody: result.result?.body,
-//           // executedAt: result.result?.executedAt,
-//           // executionTimeMs: result.result?.executionTimeMs,
-//           transformed: transform_code ? true : false,
-//           // health: result.health,
-//         };
-
-//         let responseText = JSON.stringify(responseData, null, 2);
-
-//         // Truncate response if it exceeds 30k characters
-//         const MAX_RESPONSE_LENGTH = 30000;
-//         if (responseText.length > MAX_RESPONSE_LENGTH) {
-//           const truncatedBody = typeof result.result?.body === 'string'
-//             ? result.result.body.substring(0, MAX_RESPONSE_LENGTH - 1000)
-//             : JSON.stringify(result.result?.body).substring(0, MAX_RESPONSE_LENGTH - 1000);
-
-//           responseData.responseBody = truncatedBody + `\n\n[... Response truncated. Original length: ${responseText.length} characters, showing first ${MAX_RESPONSE_LENGTH} characters]`;
-//           responseText = JSON.stringify(responseData, null, 2);
-
-//           console.error(`[WARN] Response truncated from ${responseText.length} to ${MAX_RESPONSE_LENGTH} characters`);
-//         }
-
-//         return {
-//           content: [
-//             {
-//               type: "text",
-//               text: responseText,
-//             },
-//           ],
-//         };
-//       } catch (error: any) {
-//         return {
-//           content: [
-//             {
-//               type: "text",
-//               text: JSON.stringify(
-//                 {
-//                   success: false,
-//                   error: error.message || String(error),
-//                   executedAt: new Date().toISOString(),
-//                 },
-//                 null,
-//                 2,
-//               ),
-//             },
-//           ],
-//         };
-//       }
-//     },
-//   );
+  // Tool: Execute Ability
+  server.registerTool(
+    "execute_ability",
+    {
+      title: "Execute Ability",
+      description:
+        `Executes a specific ability by abilityId with the provided parameters. Use search_abilities first to find the abilityId and its input schema. If the ability needs credentials that have expired, the response lists login abilities that can re-authenticate.${backend.capabilities.paidRequests ? "\n\n[x402 Mode: Each execution costs 0.5 cents in USDC - 20% platform, 80% ability owner]" : ""}`,
+      inputSchema: {
+        ability_id: z
+          .string()
+          .describe("The abilityId to execute (from search_abilities results)."),
+        params: z
+          .union([z.string(), z.record(z.any())])
+          .optional()
+          .describe("Parameters to pass to the ability (based on its input schema). Prefers to be a JSON string not an object. Example string: '{\"token_symbol\": \"$fdry\", \"limit\": 10}' or object: {\"token_symbol\": \"$fdry\", \"limit\": 10}."),
+        transform_code: z
+          .string()
+          .optional()
+          .describe(`Optional JavaScript code to transform/process the API response body.
+
+CRITICAL: The data parameter is ALREADY A PARSED JAVASCRIPT OBJECT. Do NOT use JSON.parse() - it will fail!
+
+The transform function receives ONLY the parsed response body from the API (the 'responseBody' field), NOT the entire execution result wrapper.
+
+For example, if the execution returns:
+{
+  "success": true,
+  "statusCode": 200,
+  "responseBody": { "results": [...], "total": 100 },
+  ...
+}
+
+Your transform function receives the ALREADY-PARSED object: { "results": [...], "total": 100 }
+
+CORRECT transform examples:
+
+1. Extract array from nested results:
+(data) => data.results
+
+2. Filter and map array items:
+(data) => data.results.map(item => ({ name: item.user_name, image: item.profile_image_url }))
+
+3. Aggregate/summarize data:
+(data) => ({ total: data.results.length, avgPrice: data.results.reduce((sum, item) => sum + item.price, 0) / data.results.length })
+
+4. Search/filter results:
+(data) => data.results.filter(item => item.status === 'active' && item.price > 100)
+
+5. Extract nested fields:
+(data) => data.results.map(r => r.metadata.id)
+
+INCORRECT examples (DO NOT DO THIS):
+❌ (data) => JSON.parse(data).results  // WRONG - data is already an object, not a string!
+❌ (data) => JSON.parse(data)  // WRONG - will throw "[object Object] is not valid JSON"
+
+The code is executed in a safe sandbox and must be a valid arrow function or function expression.`),
+      },
+    },
+    async ({ ability_id, params, transform_code }) => {
+      try {
+        console.error(`[TRACE] execute_ability tool called with ability_id: ${ability_id}`);
+        console.error(`[TRACE] Executing ability ${ability_id} on server...`);
+
+        // Parse params to object (handle both string and object input)
+        const payload: Record<string, any> = params
+          ? (typeof params === 'string' ? JSON.parse(params) : params)
+          : {};
+        console.error(`[TRACE] Params:`, payload);
+
+        // Execute ability on the server (password is sent as the credential key in API key mode)
+        const result = await executeAbilityWithClient(ability_id, payload, transform_code);
+
+        if (config.debug) {
+          console.error(
+            `[DEBUG] Execution result: ${result.success ? "SUCCESS" : "FAILED"}`,
+          );
+        }
+
+        // Handle error responses
+        if (!result.success) {
+          let errorMessage = result.error || 'Execution failed';
+
+          if (result.credentialsExpired) {
+            errorMessage += '\n\nCredentials have expired. Please re-authenticate with the service.';
+            if (result.loginAbilities && result.loginAbilities.length > 0) {
+              errorMessage += ` Execute one of the login abilities listed in loginAbilities, then retry.`;
+            }
+          }
+
+          if (result.defunct) {
+            errorMessage += `\n\nThis ability has been marked as defunct (health score: ${result.healthScore}). Please search for an alternative.`;
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: errorMessage,
+                    statusCode: result.result?.statusCode,
+                    credentialsExpired: result.credentialsExpired,
+                    loginAbilities: result.loginAbilities,
+                    defunct: result.defunct,
+                    healthScore: result.healthScore,
+                    totalExecutions: result.totalExecutions,
+                    successRate: result.successRate,
+                    paidBy: result.paidBy,
+                    executedAt: result.result?.executedAt || new Date().toISOString(),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+
+        // Prepare success response with health information
+        const responseData = {
+          success: result.success,
+          abilityId: ability_id,
+          abilityName: result.result?.abilityName,
+          domain: result.result?.domain,
+          statusCode: result.result?.statusCode,
+          responseBody: result.result?.body,
+          executedAt: result.result?.executedAt,
+          executionTimeMs: result.result?.executionTimeMs,
+          transformed: transform_code ? true : false,
+          health: result.health,
+          paidBy: result.paidBy,
+        };
+
+        let responseText = JSON.stringify(responseData, null, 2);
+
+        // Truncate response if it exceeds 30k characters
+        const MAX_RESPONSE_LENGTH = 30000;
+        const originalLength = responseText.length;
+        if (originalLength > MAX_RESPONSE_LENGTH) {
+          const truncatedBody = typeof result.result?.body === 'string'
+            ? result.result.body.substring(0, MAX_RESPONSE_LENGTH - 1000)
+            : JSON.stringify(result.result?.body).substring(0, MAX_RESPONSE_LENGTH - 1000);
+
+          responseData.responseBody = truncatedBody + `\n\n[... Response truncated. Original length: ${originalLength} characters, showing first ${MAX_RESPONSE_LENGTH} characters. Use transform_code to extract only the fields you need.]`;
+          responseText = JSON.stringify(responseData, null, 2);
+
+          console.error(`[WARN] Response truncated from ${originalLength} to ${MAX_RESPONSE_LENGTH} characters`);
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: responseText,
+            },
+          ],
+        };
+      } catch (error: any) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: error.message || String(error),
+                  ...paymentErrorFields(error),
+                  executedAt: new Date().toISOString(),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+    },
+  );
 
   // Tool: Execute Multiple Abilities in Parallel
   server.registerTool(
@@ -856,7 +1141,7 @@ export default function createServer({
     {
       title: "Execute Multiple Abilities in Parallel",
       description:
-        `Executes multiple abilities simultaneously in parallel using Promise.all. Useful for batch operations like fetching multiple pages of a paginated API, or fetching data from multiple different APIs at once. Unlike execute_ability_chain (which runs sequentially with output piping), this runs all abilities independently and concurrently.\n\n⚠️ IMPORTANT: If responses are truncated (indicated by 'truncated: true' in results), use the 'transform_code' parameter to extract only the specific data you need. Transform code runs server-side BEFORE truncation, allowing you to get complete filtered data instead of cut-off responses.${useX402Mode ? "\n\n[x402 Mode: Each execution costs 0.5 cents in USDC - 20% platform, 80% ability owner]" : ""}`,
+        `Executes multiple abilities simultaneously in parallel using Promise.all. Useful for batch operations like fetching multiple pages of a paginated API, or fetching data from multiple different APIs at once. Unlike execute_ability_chain (which runs sequentially with output piping), this runs all abilities independently and concurrently.\n\n⚠️ IMPORTANT: If responses are truncated (indicated by 'truncated: true' in results), use the 'transform_code' parameter to extract only the specific data you need. Transform code runs server-side BEFORE truncation, allowing you to get complete filtered data instead of cut-off responses.${backend.capabilities.paidRequests ? "\n\n[x402 Mode: Each execution costs 0.5 cents in USDC - 20% platform, 80% ability owner. Use dry_run to see the projected cost, balance and remaining budget first]" : ""}`,
       inputSchema: {
         abilities: z
           .array(
@@ -904,11 +1189,36 @@ Common use cases:
           .optional()
           .default(false)
           .describe("If true, attempts to merge all successful results into a single array. Useful for pagination where each response has the same structure."),
+        dry_run: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("If true, nothing is executed. Returns the projected cost, current USDC balance and remaining budget (x402 mode)."),
+        confirm_above_cents: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Ask the user to confirm before running if the batch would cost more than this many cents (x402 mode). Can only lower the server's configured threshold."),
       },
     },
-    async ({ abilities, aggregate_results }) => {
+    async ({ abilities, aggregate_results, dry_run, confirm_above_cents }) => {
       try {
-        console.error(`[TRACE] execute_abilities tool called with ${abilities.length} abilities`);
+        console.error(`[TRACE] execute_abilities tool called with ${abilities.length} abilities${dry_run ? " (dry run)" : ""}`);
+
+        const preflight = await preflightPaidBatch(
+          abilities.map(({ ability_id }) => ({ operation: "execute" as const, abilityId: ability_id })),
+          { dryRun: dry_run, confirmAboveCents: confirm_above_cents },
+        );
+        if (preflight) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(preflight, null, 2),
+              },
+            ],
+          };
+        }
 
         // Execute all abilities in parallel using Promise.allSettled
         const startTime = Date.now();
@@ -922,20 +1232,7 @@ Common use cases:
             console.error(`[TRACE] Executing ${ability_id} with params:`, payload);
 
             // Execute ability on the server using appropriate client
-            let result;
-            if (useX402Mode && x402Client) {
-              // x402 mode: paid execution (no credential key needed - payment handles auth)
-              console.error(`[x402] Using x402 client for execution: ${ability_id}`);
-              result = await x402Client.executeAbility(ability_id, payload, {
-                transformCode: transform_code,
-              });
-            } else {
-              // Traditional mode: use API key with credential key for encrypted credentials
-              result = await apiClient.executeAbility(ability_id, payload, {
-                transformCode: transform_code,
-                credentialKey: password,
-              });
-            }
+            const result = await executeAbilityWithClient(ability_id, payload, transform_code);
 
             return {
               ability_id,
@@ -958,7 +1255,10 @@ Common use cases:
                 ability_id: abilities[idx].ability_id,
                 params: abilities[idx].params,
                 error: r.reason?.message || String(r.reason),
-                type: 'exception',
+                ...paymentErrorFields(r.reason),
+                type: r.reason instanceof BudgetExceededError
+                  ? 'budget_exceeded'
+                  : r.reason instanceof PaymentPolicyError ? 'payment_rejected' : 'exception',
               };
             }
             if (r.status === 'fulfilled' && !r.value.result.success) {
@@ -967,7 +1267,9 @@ Common use cases:
                 params: r.value.params,
                 error: r.value.result.error || 'Execution failed',
                 credentialsExpired: r.value.result.credentialsExpired,
+                loginAbilities: r.value.result.loginAbilities,
                 defunct: r.value.result.defunct,
+                paidBy: r.value.result.paidBy,
                 type: 'failed',
               };
             }
@@ -1038,6 +1340,7 @@ Common use cases:
           statusCode: exec.result.result?.statusCode,
           responseBody: exec.result.result?.body,
           executionTimeMs: exec.result.result?.executionTimeMs,
+          paidBy: exec.result.paidBy,
         }));
 
         // Include failures if any
@@ -1100,162 +1403,171 @@ Common use cases:
     }
   );
 
-//   // Tool: Execute Ability Chain (Workflow)
-//   server.registerTool(
-//     "execute_ability_chain",
-//     {
-//       title: "Execute Ability Chain",
-//       description:
-//         "Executes multiple abilities in sequence (pipeline/chain), where the output of one ability becomes the input to the next. Successful chains automatically create reusable workflow abilities.",
-//       inputSchema: {
-//         chain: z
-//           .string()
-//           .describe(`JSON array defining the chain of abilities to execute in sequence.
-
-// Structure:
-// [
-//   {
-//     "abilityId": "ability-1",
-//     "params": { /* parameters for first ability */ },
-//     "outputMapping": { "output.field": "input.field" }  // Optional: map output to next input
-//   },
-//   {
-//     "abilityId": "ability-2",
-//     "params": { /* base parameters */ }
-//   }
-// ]
-
-// Features:
-// - Output of ability N is passed as input to ability N+1
-// - Use outputMapping to map specific fields (dot notation supported)
-// - Without outputMapping, entire output is merged with next step's params
-// - Maximum 10 abilities per chain
-// - Successful chains auto-create reusable workflow abilities
-
-// Example:
-// [
-//   {
-//     "abilityId": "twitter-search",
-//     "params": { "query": "AI agents", "count": 5 },
-//     "outputMapping": { "tweets.0.id": "tweetId" }
-//   },
-//   {
-//     "abilityId": "twitter-get-details",
-//     "params": {}
-//   }
-// ]`),
-//         stop_on_error: z
-//           .boolean()
-//           .optional()
-//           .default(true)
-//           .describe("Stop chain execution if any step fails. Default: true. Set to false to execute all steps and get partial results."),
-//         transform_code: z
-//           .string()
-//           .optional()
-//           .describe("Optional JavaScript code to transform the final output (applied to last successful step's result)."),
-//       },
-//     },
-//     async ({ chain, stop_on_error, transform_code }) => {
-//       try {
-//         console.error(`[TRACE] execute_ability_chain tool called`);
-
-//         // Parse chain string to array
-//         const chainArray = JSON.parse(chain);
-//         console.error(`[TRACE] Chain length: ${chainArray.length} steps`);
-
-//         // Execute chain on the server
-//         const response = await fetch(`${UNBROWSE_API_BASE_URL}/my/abilities/chain/execute`, {
-//           method: 'POST',
-//           headers: {
-//             'Authorization': `Bearer ${authToken}`,
-//             'X-Credential-Key': password || '',
-//             'Content-Type': 'application/json',
-//           },
-//           body: JSON.stringify({
-//             chain: chainArray,
-//             stopOnError: stop_on_error,
-//             transformCode: transform_code,
-//           }),
-//         });
-
-//         const result = await response.json();
-
-//         if (config.debug) {
-//           console.error(`[DEBUG] Chain execution result: ${result.success ? "SUCCESS" : "FAILED"}`);
-//           console.error(`[DEBUG] Steps completed: ${result.stepsCompleted}/${result.stepsTotal}`);
-//         }
-
-//         // Format response
-//         if (!result.success) {
-//           const failedSteps = result.results?.filter((r: any) => !r.success) || [];
-//           const errorDetails = failedSteps.map((step: any) =>
-//             `- Step ${step.abilityId}: ${step.error || 'Unknown error'}`
-//           ).join('\n');
-
-//           return {
-//             content: [
-//               {
-//                 type: "text",
-//                 text: `Chain execution failed:\n\n${errorDetails}\n\nCompleted: ${result.stepsCompleted}/${result.stepsTotal} steps\nTotal time: ${result.totalExecutionTimeMs}ms`,
-//               },
-//             ],
-//             isError: true,
-//           };
-//         }
-
-//         // Success
-//         let responseText = `✅ Chain executed successfully!\n\n`;
-//         responseText += `📊 Results:\n`;
-//         responseText += `- Steps completed: ${result.stepsCompleted}/${result.stepsTotal}\n`;
-//         responseText += `- Total execution time: ${result.totalExecutionTimeMs}ms\n`;
-
-//         if (result.workflowAbilityId) {
-//           responseText += `\n🎉 Workflow ability auto-created!\n`;
-//           responseText += `- Workflow ID: ${result.workflowAbilityId}\n`;
-//           responseText += `- This chain is now reusable as a single ability\n`;
-//           responseText += `- Execute it with: execute_ability(ability_id="${result.workflowAbilityId}")\n`;
-//         }
-
-//         responseText += `\n📦 Final Output:\n${JSON.stringify(result.finalOutput, null, 2)}`;
-
-//         // Include step-by-step results if debugging
-//         if (config.debug && result.results) {
-//           responseText += `\n\n🔍 Step Details:\n`;
-//           result.results.forEach((step: any, idx: number) => {
-//             responseText += `\nStep ${idx + 1} (${step.abilityId}):\n`;
-//             responseText += `  Status: ${step.success ? '✅ Success' : '❌ Failed'}\n`;
-//             responseText += `  Time: ${step.executionTimeMs}ms\n`;
-//             if (!step.success && step.error) {
-//               responseText += `  Error: ${step.error}\n`;
-//             }
-//           });
-//         }
-
-//         return {
-//           content: [
-//             {
-//               type: "text",
-//               text: responseText,
-//             },
-//           ],
-//         };
-//       } catch (error: any) {
-//         console.error(`[ERROR] Chain execution failed:`, error);
-//         return {
-//           content: [
-//             {
-//               type: "text",
-//               text: `Failed to execute chain: ${error.message}`,
-//             },
-//           ],
-//           isError: true,
-//         };
-//       }
-//     },
-//   );
+  // Tool: Execute Ability Chain (client-side workflow)
+  const chainStepSchema = z.object({
+    abilityId: z.string().describe("The abilityId to execute for this step"),
+    params: z
+      .record(z.any())
+      .optional()
+      .describe("Base parameters for this step. These override values mapped from the previous step."),
+    outputMapping: z
+      .record(z.string())
+      .optional()
+      .describe("Map fields of this step's output to the next step's params, using dot notation (e.g. { \"tweets.0.id\": \"tweetId\" })"),
+    transform_code: z
+      .string()
+      .optional()
+      .describe("Optional JavaScript transform applied to this step's response before it is passed on"),
+  });
+
+  server.registerTool(
+    "execute_ability_chain",
+    {
+      title: "Execute Ability Chain",
+      description:
+        `Executes multiple abilities in sequence (pipeline/chain), where the output of one ability becomes the input to the next. Steps run one at a time on the client, so this works in every authentication mode. Returns the final output and a step-by-step trace.${backend.capabilities.paidRequests ? "\n\n[x402 Mode: Each step costs 0.5 cents in USDC]" : ""}`,
+      inputSchema: {
+        chain: z
+          .union([z.string(), z.array(chainStepSchema)])
+          .describe(`Array (or JSON string of an array) defining the chain of abilities to execute in sequence.
+
+Structure:
+[
+  {
+    "abilityId": "ability-1",
+    "params": { /* parameters for first ability */ },
+    "outputMapping": { "output.field": "input.field" }  // Optional: map output to next input
+  },
+  {
+    "abilityId": "ability-2",
+    "params": { /* base parameters */ },
+    "transform_code": "(data) => data.results"  // Optional: per-step transform
+  }
+]
+
+Features:
+- Output of ability N is passed as input to ability N+1
+- Use outputMapping to map specific fields (dot notation supported, array indexes included)
+- Without outputMapping, an object output is merged with next step's params
+- transform_code runs on a step's response BEFORE it is mapped into the next step
+- Maximum ${MAX_CHAIN_STEPS} abilities per chain
+
+Example:
+[
+  {
+    "abilityId": "twitter-search",
+    "params": { "query": "AI agents", "count": 5 },
+    "outputMapping": { "tweets.0.id": "tweetId" }
+  },
+  {
+    "abilityId": "twitter-get-details",
+    "params": {}
+  }
+]`),
+        stop_on_error: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Stop chain execution if any step fails. Default: true. Set to false to execute all steps and get partial results (a step after a failure receives the last successful output)."),
+      },
+    },
+    async ({ chain, stop_on_error }) => {
+      try {
+        console.error(`[TRACE] execute_ability_chain tool called`);
+
+        // Parse chain to array (handle both string and array input)
+        let steps: ChainStep[];
+        if (typeof chain === "string") {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(chain);
+          } catch (error: any) {
+            throw new Error(`chain is not valid JSON: ${error.message}`);
+          }
+          const validated = z.array(chainStepSchema).safeParse(parsed);
+          if (!validated.success) {
+            const issue = validated.error.issues[0];
+            throw new Error(`chain must be an array of steps: ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`);
+          }
+          steps = validated.data as ChainStep[];
+        } else {
+          steps = chain as ChainStep[];
+        }
+        console.error(`[TRACE] Chain length: ${steps.length} steps`);
+
+        const result = await executeAbilityChain(
+          steps,
+          (abilityId, params, transformCode) => executeAbilityWithClient(abilityId, params, transformCode),
+          { stopOnError: stop_on_error },
+        );
+
+        if (config.debug) {
+          console.error(`[DEBUG] Chain execution result: ${result.success ? "SUCCESS" : "FAILED"}`);
+          console.error(`[DEBUG] Steps completed: ${result.stepsCompleted}/${result.stepsTotal}`);
+        }
+
+        // Intermediate outputs are only a preview; the final output is returned in full (up to the limit)
+        const MAX_STEP_OUTPUT_LENGTH = 2000;
+        const MAX_FINAL_OUTPUT_LENGTH = 20000;
+        const truncate = (value: any, maxLength: number): any => {
+          if (value === undefined) return value;
+          const text = typeof value === "string" ? value : JSON.stringify(value);
+          return text.length > maxLength ? `${text.slice(0, maxLength)}...` : value;
+        };
+
+        const response: any = {
+          success: result.success,
+          stepsCompleted: result.stepsCompleted,
+          stepsTotal: result.stepsTotal,
+          totalExecutionTimeMs: result.totalExecutionTimeMs,
+          finalOutput: truncate(result.finalOutput, MAX_FINAL_OUTPUT_LENGTH),
+          trace: result.trace.map((step) => ({
+            ...step,
+            output: truncate(step.output, MAX_STEP_OUTPUT_LENGTH),
+          })),
+        };
+
+        const failedSteps = result.trace.filter((step) => step.status === "failed");
+        if (failedSteps.length > 0) {
+          response.error = failedSteps
+            .map((step) => `Step ${step.step} (${step.abilityId}): ${step.error}`)
+            .join("\n");
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`[ERROR] Chain execution failed:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: error.message || String(error),
+                  executedAt: new Date().toISOString(),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+    },
+  );
 
   // Tool: Ingest API Endpoint (conditionally registered based on config)
-  if (config.enableIndexTool) {
+  if (config.enableIndexTool && !backend.capabilities.ingest) {
+    console.warn(`[WARN] Index tool is not available in ${backend.mode} mode (requires an API key or session token)`);
+  } else if (config.enableIndexTool) {
     console.error("[INFO] Index tool enabled via config.enableIndexTool");
     server.registerTool(
       "ingest_api_endpoint",
@@ -1284,49 +1596,20 @@ Common use cases:
       try {
         console.error(`[TRACE] Ingesting API endpoint: ${input}`);
 
-        // Call the ingest API endpoint with authentication
-        const response = await fetch(`${UNBROWSE_API_BASE_URL}/ingest/api`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            input,
-            service_name,
-            ability_name,
-            description,
-          }),
+        const result = await backend.ingestApiEndpoint({
+          input,
+          serviceName: service_name,
+          abilityName: ability_name,
+          description,
         });
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: response.statusText }));
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  {
-                    success: false,
-                    error: errorData.error || `API ingestion failed: ${response.status} ${response.statusText}`,
-                  },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        const result = await response.json();
-
         console.error(`[INFO] Successfully ingested API endpoint: ${result.ability_id}`);
 
         // Add the newly ingested ability to the cache and permanent storage
         if (result.success && result.ability_id) {
           // Fetch the full ability data and add to cache
           try {
-            const abilityResponse = await apiClient.getAbility(result.ability_id);
+            const abilityResponse = await backend.getAbility(result.ability_id);
             if (abilityResponse.success && abilityResponse.ability) {
               const ability = abilityResponse.ability;
               abilityCache.set(ability.ability_id, ability);
@@ -1394,8 +1677,7 @@ Common use cases:
   }
 
   const generateUsageDocs = (ability: IndexedAbility): any => {
-    const baseUrl = UNBROWSE_API_BASE_URL;
-    const endpoint = `${baseUrl}/my/abilities/${ability.ability_id}/execute`;
+    const endpoint = `${apiBaseUrl}/my/abilities/${ability.ability_id}/execute`;
     
     // Generate example params
     const exampleParams: Record<string, any> = {};
@@ -1460,7 +1742,7 @@ const execute_${safeAbilityName} = async (params) => {
     {
       title: "Search Multiple Abilities in Parallel",
       description:
-        `Executes multiple ability searches simultaneously in parallel. Useful when you need to search for different capabilities at once (e.g., searching for 'create user' and 'send email' and 'upload file' all at the same time).${useX402Mode ? " [x402 Mode: Each search costs 0.1 cents in USDC]" : ""}`,
+        `Executes multiple ability searches simultaneously in parallel. Useful when you need to search for different capabilities at once (e.g., searching for 'create user' and 'send email' and 'upload file' all at the same time).${backend.capabilities.paidRequests ? " [x402 Mode: Each search costs 0.1 cents in USDC. Use dry_run to see the projected cost, balance and remaining budget first]" : ""}`,
       inputSchema: {
         searches: z
           .array(
@@ -1489,11 +1771,42 @@ Example:
           .optional()
           .default(3)
           .describe("Maximum number of results to return per search query. Default: 3"),
+        public_only: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Only search the public published index (free, also in x402 mode). Default: false"),
+        dry_run: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("If true, nothing is searched. Returns the projected cost, current USDC balance and remaining budget (x402 mode)."),
+        confirm_above_cents: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("Ask the user to confirm before running if the batch would cost more than this many cents (x402 mode). Can only lower the server's configured threshold."),
       },
     },
-    async ({ searches, result_limit_per_search }) => {
+    async ({ searches, result_limit_per_search, public_only, dry_run, confirm_above_cents }) => {
       try {
-        console.error(`[TRACE] search_abilities_parallel called with ${searches.length} searches`);
+        console.error(`[TRACE] search_abilities_parallel called with ${searches.length} searches${public_only ? " (public index)" : ""}${dry_run ? " (dry run)" : ""}`);
+
+        // Public searches are free
+        const preflight = await preflightPaidBatch(
+          public_only ? [] : searches.map(() => ({ operation: "search" as const })),
+          { dryRun: dry_run, confirmAboveCents: confirm_above_cents },
+        );
+        if (preflight) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(preflight, null, 2),
+              },
+            ],
+          };
+        }
 
         // Execute all searches in parallel using Promise.allSettled
         const startTime = Date.now();
@@ -1501,18 +1814,15 @@ Example:
           searches.map(async ({ query, domains }) => {
             console.error(`[TRACE] Searching for: "${query}"${domains ? ` in domains: ${domains.join(', ')}` : ''}`);
 
-            // Use x402 client if in x402 mode, otherwise use traditional API client
-            let result;
-            if (useX402Mode && x402Client) {
-              // x402 mode: paid search (no domain filtering in x402)
-              result = await x402Client.searchAbilities(query, result_limit_per_search || 20);
-            } else {
-              result = await apiClient.searchAbilities(query, result_limit_per_search || 20, domains);
-            }
+            const result = public_only
+              ? await backend.searchPublicAbilities(query, result_limit_per_search || 20, domains)
+              : await backend.searchAbilities(query, result_limit_per_search || 20, domains);
 
             return {
               query,
               domains,
+              domainFiltering: result.domainFiltering,
+              paidBy: result.paidBy,
               abilities: result.abilities.slice(0, result_limit_per_search),
             };
           })
@@ -1531,6 +1841,7 @@ Example:
                 query: searches[idx].query,
                 domains: searches[idx].domains,
                 error: r.reason?.message || String(r.reason),
+                ...paymentErrorFields(r.reason),
               };
             }
             return null;
@@ -1602,6 +1913,7 @@ Example:
           failedSearches: failed.length,
           totalAbilitiesFound: allAbilities.size,
           totalExecutionTimeMs: totalTime,
+          scope: public_only ? "public" : "all",
           message: `Found ${allAbilities.size} unique abilities across ${successful.length} searches. All are cached and ready to execute.`,
           availableDomains,
           results: abilityResults,
@@ -1611,7 +1923,9 @@ Example:
         response.searchBreakdown = successful.map((search) => ({
           query: search.query,
           domains: search.domains,
+          domainFiltering: search.domainFiltering,
           count: search.abilities.length,
+          paidBy: search.paidBy,
         }));
 
         // Include failures if any
@@ -1668,8 +1982,12 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
       .array(z.string())
       .optional()
       .describe(
-        `Optional array of domains to filter results. Only abilities from these domains will be returned. This filtering happens at the Infraxa vector database level for optimal performance. Examples: ["api.github.com", "github.com"], ["api.stripe.com"], ["twitter.com", "x.com"] Only use this after you discover what abilities are available.`,
+        `Optional array of domains to filter results. Only abilities from these domains (or their subdomains) will be returned. Where the server supports it, this filtering happens at the Infraxa vector database level; otherwise the results are filtered before they are returned, and domainFiltering.appliedBy in the response says which. Examples: ["api.github.com", "github.com"], ["api.stripe.com"], ["twitter.com", "x.com"] Only use this after you discover what abilities are available.`,
       ),
+    public_only: z
+      .boolean()
+      .optional()
+      .describe("Only search the public published index, skipping your personal abilities (free, also in x402 mode). Default: false"),
   };
 
   if (!devMode) {
@@ -1681,25 +1999,32 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
     {
       title: "Search Abilities",
       description:
-        `Searches for abilities across both your personal abilities and the global published index. Use this when user requests for something that you do not have capabilities of doing.${useX402Mode ? " [x402 Mode: This search costs 0.1 cents in USDC per request]" : ""}`,
+        `Searches for abilities across both your personal abilities and the global published index. Use this when user requests for something that you do not have capabilities of doing.${backend.capabilities.paidRequests ? " [x402 Mode: This search costs 0.1 cents in USDC per request]" : ""}`,
       inputSchema: searchInputSchema,
     },
-    async ({ query, domains, rag_mode }: any) => {
+    async ({ query, domains, public_only, rag_mode }: any) => {
       // Ensure abilities are loaded
       // await ensureInitialized();
 
       const resultLimit = 20;
       const showUsage = devMode || rag_mode;
 
-      // Search abilities using appropriate client (x402 or traditional)
+      // Backends without the domainFilter capability filter the results themselves
       let result;
-      if (useX402Mode && x402Client) {
-        // x402 mode: Use paid search endpoint (no domain filtering in x402)
-        console.error(`[x402] Using x402 client for search: "${query}"`);
-        result = await x402Client.searchAbilities(query, resultLimit);
-      } else {
-        // Traditional mode: Use API key-based search with optional domain filtering
-        result = await apiClient.searchAbilities(query, resultLimit, domains);
+      try {
+        result = public_only
+          ? await backend.searchPublicAbilities(query, resultLimit, domains)
+          : await backend.searchAbilities(query, resultLimit, domains);
+      } catch (error: any) {
+        if (!(error instanceof BudgetExceededError) && !(error instanceof PaymentPolicyError)) throw error;
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: false, error: error.message, ...paymentErrorFields(error) }, null, 2),
+            },
+          ],
+        };
       }
       const matches = result.abilities;
       const domainCandidates = new Set<string>(
@@ -1745,6 +2070,9 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
                 success: true,
                 query,
                 count: matches.length,
+                scope: public_only ? "public" : "all",
+                domainFiltering: result.domainFiltering,
+                paidBy: result.paidBy,
                 message: `Found ${matches.length} matching abilities. These are now cached and ready to execute. Use execute_ability with the abilityId and params.${showUsage ? " RAG mode enabled: Use the provided usage documentation to generate code." : ""}`,
                 availableDomains,
                 results: matches.map((a) => ({
@@ -1773,15 +2101,234 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
     },
   );
 
+  // Tool: Get Ability Details
+  // Extracts header names from either static header format:
+  // - ability metadata: { "Header-Name": "value" }
+  // - wrapper data: [{ key: "domain::Header-Name", value_code: "..." }]
+  const getStaticHeaderNames = (staticHeaders: any): string[] => {
+    if (!staticHeaders) return [];
+    if (Array.isArray(staticHeaders)) {
+      return staticHeaders
+        .map((header: any) => {
+          const key = String(header?.key || "");
+          return key.includes("::") ? key.split("::")[1] : key;
+        })
+        .filter(Boolean);
+    }
+    if (typeof staticHeaders === "object") {
+      return Object.keys(staticHeaders);
+    }
+    return [];
+  };
+
+  server.registerTool(
+    "get_ability_details",
+    {
+      title: "Get Ability Details",
+      description:
+        "Shows exactly what an ability will do before running it: HTTP method, URL, static header names (values are never shown), required credentials, dependency order, missing dependencies and input/output schemas. Optionally includes the wrapper source code. This is free in every mode.",
+      inputSchema: {
+        ability_id: z
+          .string()
+          .describe("The abilityId to inspect (from search_abilities results)."),
+        include_wrapper: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Include the wrapper source code that performs the request. Default: false"),
+      },
+    },
+    async ({ ability_id, include_wrapper }) => {
+      try {
+        console.error(`[TRACE] get_ability_details called with ability_id: ${ability_id}`);
+
+        const { ability, wrapper: abilityWrapper } = await backend.getAbility(ability_id);
+
+        abilityCache.set(ability.ability_id, ability);
+
+        // Wrapper data may come with the ability; otherwise fetch it separately where available
+        let wrapper = abilityWrapper;
+        if (include_wrapper && !wrapper && apiClient && backend.capabilities.wrapperCode) {
+          try {
+            const wrapperResult = await apiClient.getAbilityWrapper(ability_id);
+            wrapper = wrapperResult.wrapper;
+          } catch (error: any) {
+            console.warn(`[WARN] Failed to fetch wrapper for ${ability_id}: ${error.message}`);
+          }
+        }
+        const wrapperInput = wrapper?.input;
+
+        const staticHeaderNames = Array.from(
+          new Set([
+            ...getStaticHeaderNames(ability.static_headers),
+            ...getStaticHeaderNames(wrapperInput?.static_headers),
+          ]),
+        );
+
+        const response: any = {
+          success: true,
+          abilityId: ability.ability_id,
+          abilityName: ability.ability_name,
+          serviceName: ability.service_name,
+          domain: ability.domain,
+          description: ability.description,
+          method: ability.request_method || wrapperInput?.http_method,
+          url: ability.request_url || wrapperInput?.url,
+          staticHeaderNames,
+          dynamicHeadersRequired: ability.requires_dynamic_headers,
+          dynamicHeaderKeys: ability.dynamic_header_keys,
+          dependencyOrder: ability.dependency_order || wrapperInput?.dependency_order || [],
+          missingDependencies: ability.dependencies?.missing || wrapper?.dependencies?.missing || [],
+          inputSchema: ability.input_schema || wrapper?.schemas?.input || wrapperInput?.input_schema,
+          outputSchema: ability.output_schema || wrapper?.schemas?.output,
+          healthScore: ability.health_score,
+          generatedAt: ability.generated_at,
+        };
+
+        if (include_wrapper) {
+          const wrapperCode = ability.wrapper_code || wrapperInput?.wrapper_code;
+          response.wrapperCode = wrapperCode ?? null;
+          if (!wrapperCode) {
+            response.note = "Wrapper source is not available for this ability";
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(response, null, 2),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`[ERROR] Failed to get ability details:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: error.message || String(error),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  // Tool: Check Ability Credentials
+  server.registerTool(
+    "check_ability_credentials",
+    {
+      title: "Check Ability Credentials",
+      description:
+        `Reports which credentials (dynamic header keys) an ability needs and whether each one is satisfied, either by an environment variable (named in the response) or${backend.capabilities.paidRequests ? "" : " by stored credentials"}. For missing keys, lists environment variable names that would satisfy them. Values are never shown.`,
+      inputSchema: {
+        ability_id: z
+          .string()
+          .describe("The abilityId to check (from search_abilities results)."),
+      },
+    },
+    async ({ ability_id }) => {
+      try {
+        console.error(`[TRACE] check_ability_credentials called with ability_id: ${ability_id}`);
+
+        let ability = abilityCache.get(ability_id);
+        if (!ability) {
+          ability = (await backend.getAbility(ability_id)).ability;
+          abilityCache.set(ability.ability_id, ability);
+        }
+
+        const keys = [];
+        for (const key of ability.dynamic_header_keys || []) {
+          const envCredential = resolveEnvCredentialForKey(key);
+          if (envCredential) {
+            keys.push({ key, satisfied: true, source: "env", envVar: envCredential.source });
+            continue;
+          }
+
+          let stored = false;
+          if (backend.capabilities.storedCredentials) {
+            for (const candidate of deriveCandidatesForKey(ability, key)) {
+              const credentials = await fetchCredentialsForCandidate(candidate);
+              if (credentials && credentials[key] !== undefined) {
+                stored = true;
+                break;
+              }
+            }
+          }
+
+          keys.push(
+            stored
+              ? { key, satisfied: true, source: "stored" }
+              : {
+                  key,
+                  satisfied: false,
+                  source: null,
+                  // JSON mapping, or the sanitized DOMAIN__HEADER form documented in .env.example
+                  suggestedEnvVars: [
+                    "UNBROWSE_TOOL_HEADERS",
+                    key.split("::").map(sanitizeEnvSegment).filter(Boolean).join("__"),
+                  ],
+                },
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: true,
+                  abilityId: ability.ability_id,
+                  abilityName: ability.ability_name,
+                  executionMode,
+                  allSatisfied: keys.every((entry) => entry.satisfied),
+                  keys,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error: any) {
+        console.error(`[ERROR] Failed to check ability credentials:`, error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: false,
+                  error: error.message || String(error),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+    },
+  );
+
   // Tool: Get Payment History (x402 mode only)
-  // This tool is only available when using x402 payment mode
-  if (useX402Mode && x402Client) {
+  // This tool is only available when an x402 wallet is configured (x402 or hybrid mode)
+  if (x402Client) {
     server.registerTool(
       "get_payment_history",
       {
         title: "Get Payment History",
         description:
-          "View your x402 payment history and spending summary. Only available in x402 payment mode. Shows recent payments, total spending, and breakdown by search vs execute operations.",
+          "View your x402 payment history and spending summary. Only available when an x402 wallet is configured. Shows recent payments, total spending, breakdown by search vs execute operations, and remaining budget under the configured spending limits. History is read from the persistent payment ledger and can be limited to a date range.",
         inputSchema: {
           limit: z
             .number()
@@ -1797,18 +2344,28 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
             .optional()
             .default(true)
             .describe("Include spending summary with totals. Default: true"),
+          from: z
+            .string()
+            .optional()
+            .describe("Only include payments on or after this date (YYYY-MM-DD, UTC, or an ISO timestamp)"),
+          to: z
+            .string()
+            .optional()
+            .describe("Only include payments on or before this date (YYYY-MM-DD, UTC, or an ISO timestamp)"),
         },
       },
-      async ({ limit, type, include_summary }) => {
+      async ({ limit, type, include_summary, from, to }) => {
         try {
-          console.error(`[x402] Getting payment history (limit: ${limit}, type: ${type || 'all'})`);
+          console.error(`[x402] Getting payment history (limit: ${limit}, type: ${type || 'all'}, from: ${from || '-'}, to: ${to || '-'})`);
 
-          const history = x402Client!.getPaymentHistory(Math.min(limit || 20, 100), type);
+          const range = { from: parseDateBound(from, "from"), to: parseDateBound(to, "to") };
+          const history = x402Client!.getPaymentHistory(Math.min(limit || 20, 100), type, range);
 
           const response: any = {
             success: true,
             paymentMode: "x402_solana",
             walletAddress: x402Client!.getWalletAddress(),
+            ledgerPath: x402Client!.getLedgerPath(),
             paymentsReturned: history.length,
             payments: history.map(p => ({
               id: p.id,
@@ -1825,8 +2382,11 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
             })),
           };
 
+          // Remaining budget under the configured spending limits (null = unlimited)
+          response.budget = x402Client!.getBudgetStatus();
+
           if (include_summary) {
-            const summary = x402Client!.getPaymentSummary();
+            const summary = x402Client!.getPaymentSummary(range);
             response.summary = {
               totalPayments: summary.totalPayments,
               totalSpent: summary.totalSpentFormatted,
@@ -1878,14 +2438,626 @@ For simpler searches, you can use shorter queries like 'create trade', 'fetch to
     );
 
     console.error("[INFO] Registered get_payment_history tool (x402 mode)");
-  }
 
-  // Start background initialization - loads abilities for search/execute
-  // Note: autoRegisterFavorites is deprecated and removed since we can't block synchronously
-  // Users should use search_abilities to discover abilities, then execute_ability to run them
-  // ensureInitialized().catch((error) => {
-  //   console.error('[ERROR] Background initialization failed:', error);
-  // });
+    server.registerTool(
+      "export_payment_history",
+      {
+        title: "Export Payment History",
+        description:
+          "Export x402 payments from the payment ledger as CSV (one row per payment with timestamp, wallet, type, ability, amount, transaction signature and status). The CSV is returned in the response. Only available when an x402 wallet is configured.",
+        inputSchema: {
+          from: z
+            .string()
+            .optional()
+            .describe("Only include payments on or after this date (YYYY-MM-DD, UTC, or an ISO timestamp)"),
+          to: z
+            .string()
+            .optional()
+            .describe("Only include payments on or before this date (YYYY-MM-DD, UTC, or an ISO timestamp)"),
+        },
+      },
+      async ({ from, to }) => {
+        try {
+          const range = { from: parseDateBound(from, "from"), to: parseDateBound(to, "to") };
+          const csv = x402Client!.exportPaymentsCsv(range);
+          const rows = csv.trimEnd().split("\n").length - 1;
+
+          const response = {
+            success: true,
+            walletAddress: x402Client!.getWalletAddress(),
+            ledgerPath: x402Client!.getLedgerPath(),
+            rows,
+            csv,
+          };
+          console.error(`[x402] Exported ${rows} payment records`);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(response, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to export payment history:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    console.error("[INFO] Registered export_payment_history tool (x402 mode)");
+
+    const chainSchema = z
+      .enum(["devnet", "mainnet-beta"])
+      .optional()
+      .describe("Chain to check. Defaults to the chain of the last payment request (mainnet before any payment).");
+
+    // USDC balance plus how many more paid requests it covers
+    const describeWalletBalance = async (requestedChain: "devnet" | "mainnet-beta" | undefined, executions: number) => {
+      const paymentChain = x402Client!.getPaymentChain();
+      const chain = requestedChain ?? paymentChain.chain;
+      const [usdc, sol] = await Promise.all([x402Client!.getBalance(chain), x402Client!.getSolBalance(chain)]);
+      const units = BigInt(usdc.balance);
+      const executionsAffordable = Number(units / X402_PRICES.execute);
+      const lowBalance = executionsAffordable < executions;
+
+      const warnings: string[] = [];
+      if (lowBalance) {
+        warnings.push(
+          `USDC balance covers ${executionsAffordable} more execution${executionsAffordable === 1 ? "" : "s"} (warning threshold: ${executions}). ` +
+          `Fund ${x402Client!.getWalletAddress()} with USDC on Solana ${chain}.`
+        );
+      }
+      if (sol && BigInt(sol.balance) === 0n) {
+        warnings.push(`Wallet has no SOL on ${chain}; transaction fees are paid in SOL.`);
+      }
+
+      return {
+        walletAddress: x402Client!.getWalletAddress(),
+        chain,
+        chainSource: requestedChain ? "requested" : paymentChain.source,
+        usdc: { ...usdc, mint: USDC_MINTS[chain] },
+        sol,
+        affordable: {
+          executions: executionsAffordable,
+          searches: Number(units / X402_PRICES.search),
+        },
+        lowBalance,
+        ...(warnings.length > 0 ? { warnings } : {}),
+      };
+    };
+
+    server.registerTool(
+      "get_wallet_balance",
+      {
+        title: "Get Wallet Balance",
+        description:
+          "Check the x402 wallet's USDC and SOL balance and how many more searches and executions it can pay for. Warns when the balance is running low. Only available when an x402 wallet is configured.",
+        inputSchema: {
+          chain: chainSchema,
+          executions: z
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe(`Warn if the balance covers fewer than this many executions. Default: ${lowBalanceExecutions}`),
+        },
+      },
+      async ({ chain, executions }) => {
+        try {
+          const balance = await describeWalletBalance(chain, executions ?? lowBalanceExecutions);
+          console.error(`[x402] Wallet balance on ${balance.chain}: ${balance.usdc.balanceFormatted}`);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ success: true, ...balance }, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to get wallet balance:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    console.error("[INFO] Registered get_wallet_balance tool (x402 mode)");
+
+    server.registerTool(
+      "wallet_info",
+      {
+        title: "Wallet Info",
+        description:
+          "Show the x402 wallet address, how it signs, the chain payments are made on, pricing and how to fund it, along with its current balance. Only available when an x402 wallet is configured.",
+        inputSchema: {
+          chain: chainSchema,
+        },
+      },
+      async ({ chain }) => {
+        try {
+          const balance = await describeWalletBalance(chain, lowBalanceExecutions);
+          const cluster = balance.chain === "devnet" ? "?cluster=devnet" : "";
+
+          const response = {
+            success: true,
+            ...balance,
+            signer: x402Client!.getSignerKind(),
+            explorerUrl: `https://explorer.solana.com/address/${balance.walletAddress}${cluster}`,
+            pricing: {
+              search: `${Number(X402_PRICES.search) / 1_000_000} USDC`,
+              execute: `${Number(X402_PRICES.execute) / 1_000_000} USDC`,
+            },
+            funding:
+              `Send USDC (mint ${balance.usdc.mint}) on Solana ${balance.chain} to ${balance.walletAddress}, ` +
+              `plus a small amount of SOL for transaction fees.`,
+            ledgerPath: x402Client!.getLedgerPath(),
+          };
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(response, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to get wallet info:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    console.error("[INFO] Registered wallet_info tool (x402 mode)");
+  }
+
+  // Tools: Credential Management (API key / session token mode only)
+  // Credentials live in the user's cookie jar on the server, encrypted with the
+  // same password that is sent as X-Credential-Key during execution.
+  if (apiClient && backend.capabilities.storedCredentials) {
+    const invalidateCredentialCache = (domain: string): void => {
+      for (const candidate of candidateVariantsFromDomain(domain)) {
+        credentialCache.delete(candidate);
+      }
+    };
+
+    // Replace stored values with a masked preview so secrets never reach tool output
+    const summarizeCredential = (credential: any): any => {
+      if (!credential || typeof credential !== "object") return credential;
+
+      const { encryptedValue, value, ...rest } = credential;
+      const storedValue: string | undefined = encryptedValue ?? value;
+      if (typeof storedValue !== "string") return rest;
+
+      let encrypted = false;
+      try {
+        const parsed = JSON.parse(storedValue);
+        encrypted = !!(parsed?.ciphertext && parsed?.iv);
+      } catch {
+        // Plain text value
+      }
+
+      let decryptable: boolean | undefined;
+      let plaintext: string | undefined = encrypted ? undefined : storedValue;
+      if (encrypted && password) {
+        try {
+          plaintext = decryptData(storedValue, password);
+          decryptable = true;
+        } catch {
+          decryptable = false;
+        }
+      }
+
+      return {
+        ...rest,
+        encrypted,
+        ...(decryptable !== undefined ? { decryptable } : {}),
+        maskedValue: plaintext !== undefined ? maskSecret(plaintext) : "[encrypted]",
+      };
+    };
+
+    const summarizeCredentials = (credentials: any): any => {
+      if (Array.isArray(credentials)) {
+        return credentials.map(summarizeCredential);
+      }
+      if (credentials && typeof credentials === "object") {
+        return Object.fromEntries(
+          Object.entries(credentials).map(([domain, entries]) => [domain, summarizeCredentials(entries)]),
+        );
+      }
+      return credentials;
+    };
+
+    server.registerTool(
+      "list_credentials",
+      {
+        title: "List Credentials",
+        description:
+          "Lists the credentials stored in your Unbrowse cookie jar, grouped by domain. Secret values are always masked. Use this to check which services you are authenticated with, or after an execution reports credentialsExpired.",
+        inputSchema: {
+          domain: z
+            .string()
+            .optional()
+            .describe("Optional domain to list credentials for (e.g., 'api.github.com'). Lists all domains if omitted."),
+        },
+      },
+      async ({ domain }) => {
+        try {
+          console.error(`[TRACE] list_credentials called${domain ? ` for domain: ${domain}` : ''}`);
+
+          if (domain) {
+            const result = await apiClient.getCredentialsForDomain(domain);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      success: true,
+                      domain,
+                      count: result.count ?? result.credentials.length,
+                      passwordConfigured: !!password,
+                      credentials: summarizeCredentials(result.credentials),
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const result = await apiClient.listCredentials(true);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: result.success,
+                    count: result.count,
+                    passwordConfigured: !!password,
+                    credentials: summarizeCredentials(result.credentials),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to list credentials:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "store_credentials",
+      {
+        title: "Store Credentials",
+        description:
+          "Encrypts credentials locally with your configured password and stores them in your Unbrowse cookie jar. Values never leave this machine in plain text. Use this to provide the dynamic headers an ability requires (see dynamicHeaderKeys in search results), or to replace expired credentials.",
+        inputSchema: {
+          domain: z
+            .string()
+            .describe("Domain the credentials belong to (e.g., 'api.github.com')"),
+          credentials: z
+            .array(
+              z.object({
+                key: z
+                  .string()
+                  .describe("Header name (e.g., 'Authorization') or full dynamic header key (e.g., 'api.github.com::Authorization')"),
+                value: z
+                  .string()
+                  .describe("Plain text credential value. Encrypted before it is sent."),
+                type: z
+                  .string()
+                  .optional()
+                  .default("header")
+                  .describe("Credential type. Default: 'header'"),
+              })
+            )
+            .min(1)
+            .describe("Credentials to store for this domain"),
+        },
+      },
+      async ({ domain, credentials }) => {
+        try {
+          console.error(`[TRACE] store_credentials called for domain: ${domain} (${credentials.length} credentials)`);
+
+          if (!password) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      success: false,
+                      error: "A password is required to encrypt credentials. Set UNBROWSE_PASSWORD or the password config option.",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          const encryptedCredentials = credentials.map(({ key, value, type }) => ({
+            type: type || "header",
+            key: key.includes("::") ? key : `${domain}::${key}`,
+            encryptedValue: encryptCredentialValue(value, password),
+          }));
+
+          const result = await apiClient.storeCredentials(domain, encryptedCredentials);
+          invalidateCredentialCache(domain);
+
+          console.error(`[INFO] Stored ${encryptedCredentials.length} credentials for ${domain}`);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: result.success,
+                    domain,
+                    count: result.count ?? encryptedCredentials.length,
+                    keys: encryptedCredentials.map((c) => c.key),
+                    credentials: summarizeCredentials(result.credentials),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to store credentials:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "delete_credentials",
+      {
+        title: "Delete Credentials",
+        description:
+          "Deletes stored credentials, either all credentials for a domain or a single credential by its ID (from list_credentials).",
+        inputSchema: {
+          domain: z
+            .string()
+            .optional()
+            .describe("Delete all credentials for this domain"),
+          credential_id: z
+            .string()
+            .optional()
+            .describe("Delete a single credential by ID"),
+        },
+      },
+      async ({ domain, credential_id }) => {
+        try {
+          if (!domain && !credential_id) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(
+                    {
+                      success: false,
+                      error: "Provide either domain or credential_id",
+                    },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
+          let response: any;
+          if (credential_id) {
+            console.error(`[TRACE] delete_credentials called for credential: ${credential_id}`);
+            const result = await apiClient.deleteCredentialById(credential_id);
+            response = { success: result.success, credentialId: result.credentialId ?? credential_id };
+            // We don't know which domain the credential belonged to, so drop everything
+            credentialCache.clear();
+          } else {
+            console.error(`[TRACE] delete_credentials called for domain: ${domain}`);
+            const result = await apiClient.deleteCredentialsForDomain(domain!);
+            response = { success: result.success, domain, deletedCount: result.deletedCount };
+            invalidateCredentialCache(domain!);
+          }
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(response, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to delete credentials:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "expire_credentials",
+      {
+        title: "Expire Credentials",
+        description:
+          "Marks the credentials for a domain as expired so they are no longer used. Use this when an execution fails with credentialsExpired, then re-authenticate (e.g., with a login ability or store_credentials).",
+        inputSchema: {
+          domain: z
+            .string()
+            .describe("Domain whose credentials should be expired (e.g., 'api.github.com')"),
+        },
+      },
+      async ({ domain }) => {
+        try {
+          console.error(`[TRACE] expire_credentials called for domain: ${domain}`);
+
+          const result = await apiClient.expireCredentials(domain);
+          invalidateCredentialCache(domain);
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: result.success,
+                    domain,
+                    message: result.message,
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        } catch (error: any) {
+          console.error(`[ERROR] Failed to expire credentials:`, error);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: false,
+                    error: error.message || String(error),
+                  },
+                  null,
+                  2
+                ),
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    console.error("[INFO] Registered credential management tools");
+  }
+
+  // Start background initialization - registers favorite abilities as tools.
+  // Favorites come from /my/abilities, which needs an API key or session token.
+  if (registerFavoriteTools && backend.capabilities.listAbilities && maxFavoriteTools > 0) {
+    ensureInitialized()
+      .then(() => {
+        if (favoritesRefreshIntervalSeconds <= 0) return;
+
+        const refreshTimer = setInterval(() => {
+          syncFavoriteTools().catch((error) => {
+            console.error('[ERROR] Failed to refresh favorites:', error.message || error);
+          });
+        }, favoritesRefreshIntervalSeconds * 1000);
+        refreshTimer.unref();
+
+        const previousOnClose = server.server.onclose;
+        server.server.onclose = () => {
+          clearInterval(refreshTimer);
+          previousOnClose?.();
+        };
+      })
+      .catch((error) => {
+        console.error('[ERROR] Background initialization failed:', error);
+      });
+  } else if (backend.capabilities.listAbilities) {
+    console.error("[INFO] Favorite tool registration disabled");
+  }
 
   // Return the McpServer instance (not server.server) so that connect() works properly
   return server;
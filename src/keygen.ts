@@ -0,0 +1,72 @@
+/**
+ * `unbrowse-mcp keygen` - Creates a Wallet for x402 Mode
+ *
+ * Writes a new keypair in Solana CLI format (a JSON array of the secret key
+ * bytes, usable with SOLANA_KEYPAIR_PATH and the `solana` CLI) and prints the
+ * address to fund. An existing file is never overwritten.
+ *
+ * Usage: unbrowse-mcp keygen [--out <path>] [--print-secret]
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { Keypair } from "@solana/web3.js";
+import bs58 from "bs58";
+import { USDC_MINTS } from "./x402-solana.js";
+
+export const DEFAULT_KEYPAIR_PATH = join(homedir(), ".unbrowse", "wallet.json");
+
+/**
+ * Runs the keygen command
+ * @returns Process exit code
+ */
+export function runKeygen(args: string[]): number {
+  const out = (line: string = "") => process.stdout.write(line + "\n");
+
+  let keypairPath = DEFAULT_KEYPAIR_PATH;
+  let printSecret = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--out" && args[i + 1]) {
+      keypairPath = resolve(args[++i].replace(/^~(?=$|[\\/])/, homedir()));
+    } else if (args[i] === "--print-secret") {
+      printSecret = true;
+    } else {
+      console.error(`Unknown option: ${args[i]}`);
+      console.error("Usage: unbrowse-mcp keygen [--out <path>] [--print-secret]");
+      return 1;
+    }
+  }
+
+  if (existsSync(keypairPath)) {
+    console.error(`Refusing to overwrite existing keypair file: ${keypairPath}`);
+    console.error("Choose another location with --out <path>.");
+    return 1;
+  }
+
+  const keypair = Keypair.generate();
+  mkdirSync(dirname(keypairPath), { recursive: true, mode: 0o700 });
+  writeFileSync(keypairPath, JSON.stringify(Array.from(keypair.secretKey)), { mode: 0o600, flag: "wx" });
+
+  const address = keypair.publicKey.toBase58();
+  out(`Created x402 wallet: ${address}`);
+  out(`Keypair file: ${keypairPath} (keep it private, it controls the funds)`);
+  out();
+  out("Fund the wallet before making paid requests:");
+  out(`  1. Send USDC on Solana mainnet (mint ${USDC_MINTS["mainnet-beta"]}) to ${address}`);
+  out("     0.001 USDC per search, 0.005 USDC per execution");
+  out("  2. Send a small amount of SOL (e.g. 0.01) for transaction fees");
+  out(`  Explorer: https://explorer.solana.com/address/${address}`);
+  out();
+  out("Then start the server with:");
+  out(`  SOLANA_KEYPAIR_PATH=${keypairPath}`);
+  out("  UNBROWSE_X402_ALLOW_MAINNET=true");
+
+  if (printSecret) {
+    out();
+    out("Base58 private key (for SOLANA_PRIVATE_KEY):");
+    out(`  ${bs58.encode(keypair.secretKey)}`);
+  }
+
+  return 0;
+}
@@ -0,0 +1,227 @@
+/**
+ * Spending Budget for x402 Payments
+ *
+ * Limits are checked before a payment is signed. Amounts are tracked in USDC
+ * base units (6 decimals), the same unit as PaymentRequirement.amount.
+ *
+ * Spending is reserved at the moment a payment is about to be signed, so
+ * parallel executions cannot overshoot a limit. The reservation is released
+ * if signing fails or the server does not accept the payment.
+ */
+
+const USDC_UNITS = 1_000_000;
+
+/**
+ * Configured limits in USDC. Unset limits are unlimited.
+ */
+export interface BudgetLimits {
+  perCallUsdc?: number; // Largest single payment
+  sessionUsdc?: number; // Total for this server process
+  dailyUsdc?: number; // Total per UTC day
+  perAbilityUsdc?: number; // Default per-ability total for this session
+  abilityUsdc?: Record<string, number>; // Per-ability totals, overriding perAbilityUsdc
+}
+
+export type BudgetLimitName = "per_call" | "session" | "daily" | "ability";
+
+/**
+ * Details of a payment refused by the budget
+ */
+export interface BudgetExceededDetails {
+  limit: BudgetLimitName;
+  abilityId?: string;
+  requestedUsdc: number;
+  limitUsdc: number;
+  spentUsdc: number;
+  remainingUsdc: number;
+}
+
+/**
+ * Thrown when a payment would exceed a configured limit. Nothing has been signed.
+ */
+export class BudgetExceededError extends Error {
+  readonly code = "BUDGET_EXCEEDED";
+  readonly details: BudgetExceededDetails;
+
+  constructor(details: BudgetExceededDetails) {
+    const scope = details.limit === "ability" ? `ability budget for ${details.abilityId}` : `${details.limit.replace("_", "-")} budget`;
+    super(
+      `Payment of ${details.requestedUsdc} USDC refused: it would exceed the ${scope} ` +
+      `(limit ${details.limitUsdc} USDC, spent ${details.spentUsdc} USDC, remaining ${details.remainingUsdc} USDC)`,
+    );
+    this.name = "BudgetExceededError";
+    this.details = details;
+  }
+}
+
+export interface BudgetUsage {
+  limitUsdc: number | null;
+  spentUsdc: number;
+  remainingUsdc: number | null;
+}
+
+export interface BudgetStatus {
+  perCallLimitUsdc: number | null;
+  session: BudgetUsage;
+  daily: BudgetUsage & { day: string; resetsAt: string };
+  abilities: Array<BudgetUsage & { abilityId: string }>;
+}
+
+export interface BudgetReservation {
+  release(): void;
+}
+
+const toUnits = (usdc: number): number => Math.round(usdc * USDC_UNITS);
+const toUsdc = (units: number): number => units / USDC_UNITS;
+const utcDay = (time: number = Date.now()): string => new Date(time).toISOString().slice(0, 10);
+
+export class PaymentBudget {
+  private readonly limits: BudgetLimits;
+  private sessionSpent = 0;
+  private dailySpent = 0;
+  private day = utcDay();
+  private readonly abilitySpent = new Map<string, number>();
+
+  constructor(limits: BudgetLimits = {}) {
+    this.limits = limits;
+  }
+
+  /**
+   * Whether any limit is configured
+   */
+  hasLimits(): boolean {
+    const { perCallUsdc, sessionUsdc, dailyUsdc, perAbilityUsdc, abilityUsdc } = this.limits;
+    return [perCallUsdc, sessionUsdc, dailyUsdc, perAbilityUsdc].some((limit) => limit !== undefined) ||
+      Object.keys(abilityUsdc || {}).length > 0;
+  }
+
+  /**
+   * Checks every limit and reserves the amount, or throws BudgetExceededError
+   *
+   * @param amount - Payment amount in USDC base units
+   * @param abilityId - Ability being paid for (searches have none)
+   */
+  reserve(amount: number, abilityId?: string): BudgetReservation {
+    this.rollDay();
+
+    const abilityLimit = this.getAbilityLimit(abilityId);
+    const checks: Array<{ limit: BudgetLimitName; limitUsdc?: number; spent: number }> = [
+      { limit: "per_call", limitUsdc: this.limits.perCallUsdc, spent: 0 },
+      { limit: "session", limitUsdc: this.limits.sessionUsdc, spent: this.sessionSpent },
+      { limit: "daily", limitUsdc: this.limits.dailyUsdc, spent: this.dailySpent },
+      { limit: "ability", limitUsdc: abilityLimit, spent: abilityId ? this.abilitySpent.get(abilityId) || 0 : 0 },
+    ];
+
+    for (const check of checks) {
+      if (check.limitUsdc === undefined) continue;
+      const limitUnits = toUnits(check.limitUsdc);
+      if (check.spent + amount > limitUnits) {
+        throw new BudgetExceededError({
+          limit: check.limit,
+          abilityId,
+          requestedUsdc: toUsdc(amount),
+          limitUsdc: check.limitUsdc,
+          spentUsdc: toUsdc(check.spent),
+          remainingUsdc: toUsdc(Math.max(0, limitUnits - check.spent)),
+        });
+      }
+    }
+
+    const day = this.day;
+    this.sessionSpent += amount;
+    this.dailySpent += amount;
+    if (abilityId) {
+      this.abilitySpent.set(abilityId, (this.abilitySpent.get(abilityId) || 0) + amount);
+    }
+
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        this.sessionSpent -= amount;
+        if (this.day === day) {
+          this.dailySpent -= amount;
+        }
+        if (abilityId) {
+          const remaining = (this.abilitySpent.get(abilityId) || 0) - amount;
+          if (remaining > 0) {
+            this.abilitySpent.set(abilityId, remaining);
+          } else {
+            this.abilitySpent.delete(abilityId);
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Checks whether a batch of payments would fit every limit, without reserving anything
+   *
+   * @returns The first limit the batch would exceed, or null if it fits
+   */
+  preview(payments: Array<{ amount: number; abilityId?: string }>): BudgetExceededDetails | null {
+    const reservations: BudgetReservation[] = [];
+    try {
+      for (const payment of payments) {
+        reservations.push(this.reserve(payment.amount, payment.abilityId));
+      }
+      return null;
+    } catch (error) {
+      if (error instanceof BudgetExceededError) return error.details;
+      throw error;
+    } finally {
+      reservations.forEach((reservation) => reservation.release());
+    }
+  }
+
+  /**
+   * Counts payments made earlier today (e.g. before a restart) against the daily limit
+   *
+   * @param amount - Amount already spent today in USDC base units
+   */
+  seedDailySpent(amount: number): void {
+    this.rollDay();
+    this.dailySpent += amount;
+  }
+
+  /**
+   * Current limits, spending and remaining budget
+   */
+  getStatus(): BudgetStatus {
+    this.rollDay();
+
+    const usage = (limitUsdc: number | undefined, spent: number): BudgetUsage => ({
+      limitUsdc: limitUsdc ?? null,
+      spentUsdc: toUsdc(spent),
+      remainingUsdc: limitUsdc === undefined ? null : toUsdc(Math.max(0, toUnits(limitUsdc) - spent)),
+    });
+
+    const abilityIds = new Set([...Object.keys(this.limits.abilityUsdc || {}), ...this.abilitySpent.keys()]);
+    const nextDay = new Date(`${this.day}T00:00:00.000Z`);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+    return {
+      perCallLimitUsdc: this.limits.perCallUsdc ?? null,
+      session: usage(this.limits.sessionUsdc, this.sessionSpent),
+      daily: { ...usage(this.limits.dailyUsdc, this.dailySpent), day: this.day, resetsAt: nextDay.toISOString() },
+      abilities: Array.from(abilityIds).map((abilityId) => ({
+        abilityId,
+        ...usage(this.getAbilityLimit(abilityId), this.abilitySpent.get(abilityId) || 0),
+      })),
+    };
+  }
+
+  private getAbilityLimit(abilityId?: string): number | undefined {
+    if (!abilityId) return undefined;
+    return this.limits.abilityUsdc?.[abilityId] ?? this.limits.perAbilityUsdc;
+  }
+
+  private rollDay(): void {
+    const today = utcDay();
+    if (today !== this.day) {
+      this.day = today;
+      this.dailySpent = 0;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Persistent Payment Ledger for x402 Mode
+ *
+ * Append-only JSONL file with one PaymentRecord per line. Records are never
+ * rewritten or removed, so the file doubles as an audit trail. Queries read
+ * the file in fixed-size chunks and keep only the matching records, so memory
+ * does not grow with the ledger.
+ *
+ * When no path is configured the ledger keeps the last 1000 records in memory.
+ */
+
+import { appendFileSync, closeSync, existsSync, mkdirSync, openSync, readSync } from "fs";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { StringDecoder } from "string_decoder";
+import type { PaymentRecord } from "./api-client.js";
+
+export const DEFAULT_LEDGER_PATH = join(homedir(), ".unbrowse", "payments.jsonl");
+
+const MEMORY_LIMIT = 1000;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Filters for ledger queries. Bounds are inclusive, in epoch milliseconds.
+ */
+export interface PaymentQuery {
+  from?: number;
+  to?: number;
+  type?: PaymentRecord["type"];
+  wallet?: string;
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "wallet",
+  "type",
+  "abilityId",
+  "abilityName",
+  "amount",
+  "amountFormatted",
+  "amountCents",
+  "signature",
+  "verified",
+  "success",
+  "error",
+] as const;
+
+const escapeCsv = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Resolves a configured ledger path ('~' expanded), or null when set to "off"
+ */
+export function resolveLedgerPath(value: string | undefined): string | null {
+  if (!value) return DEFAULT_LEDGER_PATH;
+  if (value === "off") return null;
+  return resolve(value.replace(/^~(?=$|[\\/])/, homedir()));
+}
+
+/**
+ * Parses a date bound: epoch milliseconds, an ISO timestamp, or a YYYY-MM-DD
+ * date (start of day for `from`, end of day for `to`, in UTC)
+ */
+export function parseDateBound(value: string | number | undefined, bound: "from" | "to"): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "number") return value;
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const time = Date.parse(`${value}T00:00:00.000Z`);
+    if (!Number.isNaN(time)) {
+      return bound === "from" ? time : time + 24 * 60 * 60 * 1000 - 1;
+    }
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date '${value}', expected YYYY-MM-DD or an ISO timestamp`);
+  }
+  return time;
+}
+
+export class PaymentLedger {
+  private readonly path: string | null;
+  private memory: PaymentRecord[] = [];
+
+  /**
+   * @param path - JSONL file to append to, or null to keep records in memory only
+   */
+  constructor(path: string | null) {
+    this.path = path;
+
+    if (path) {
+      mkdirSync(dirname(path), { recursive: true });
+      console.error(`[x402] Payment ledger: ${path}`);
+    }
+  }
+
+  getPath(): string | null {
+    return this.path;
+  }
+
+  append(record: PaymentRecord): void {
+    if (!this.path) {
+      this.memory.push(record);
+      if (this.memory.length > MEMORY_LIMIT) {
+        this.memory = this.memory.slice(-MEMORY_LIMIT);
+      }
+      return;
+    }
+
+    try {
+      appendFileSync(this.path, JSON.stringify(record) + "\n", { encoding: "utf8", mode: 0o600 });
+    } catch (error: any) {
+      // Keep the record rather than losing it; it is written with the next successful append
+      console.error(`[x402] Failed to write payment ledger: ${error.message}`);
+      this.memory.push(record);
+      return;
+    }
+
+    if (this.memory.length > 0) {
+      const pending = this.memory;
+      this.memory = [];
+      pending.forEach((entry) => this.append(entry));
+    }
+  }
+
+  /**
+   * Returns matching records, oldest first
+   */
+  query(filter: PaymentQuery = {}): PaymentRecord[] {
+    const matches = (record: PaymentRecord) =>
+      (filter.from === undefined || record.timestamp >= filter.from) &&
+      (filter.to === undefined || record.timestamp <= filter.to) &&
+      (filter.type === undefined || record.type === filter.type) &&
+      (filter.wallet === undefined || record.wallet === undefined || record.wallet === filter.wallet);
+
+    const records: PaymentRecord[] = [];
+    for (const record of this.readRecords()) {
+      if (matches(record)) records.push(record);
+    }
+    return records;
+  }
+
+  /**
+   * Exports matching records as CSV (oldest first, ISO timestamps)
+   */
+  exportCsv(filter: PaymentQuery = {}): string {
+    const rows = this.query(filter).map((record) =>
+      CSV_COLUMNS.map((column) =>
+        escapeCsv(column === "timestamp" ? new Date(record.timestamp).toISOString() : record[column]),
+      ).join(","),
+    );
+    return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+  }
+
+  /**
+   * Yields every record, oldest first, reading the file one chunk at a time
+   */
+  private *readRecords(): Generator<PaymentRecord> {
+    if (this.path && existsSync(this.path)) {
+      const fd = openSync(this.path, "r");
+      try {
+        const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+        const decoder = new StringDecoder("utf8");
+        let pending = "";
+        let bytesRead: number;
+        do {
+          bytesRead = readSync(fd, buffer, 0, buffer.length, null);
+          pending += bytesRead > 0 ? decoder.write(buffer.subarray(0, bytesRead)) : decoder.end();
+          const lines = pending.split("\n");
+          pending = bytesRead > 0 ? lines.pop()! : "";
+          for (const line of lines) {
+            if (!line.trim()) continue;
+            let record: PaymentRecord;
+            try {
+              record = JSON.parse(line);
+            } catch {
+              // A partially written last line is skipped rather than failing the query
+              continue;
+            }
+            yield record;
+          }
+        } while (bytesRead > 0);
+      } finally {
+        closeSync(fd);
+      }
+    }
+    yield* this.memory;
+  }
+}
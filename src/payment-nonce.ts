@@ -0,0 +1,79 @@
+/**
+ * Payment Nonces for x402
+ *
+ * Every payment creates a payment record PDA derived from the payer and a u64
+ * nonce, so two payments with the same nonce collide on-chain and the second
+ * one fails. Parallel searches and executions sign payments within the same
+ * millisecond, so the nonce cannot simply be the current time.
+ *
+ * NonceManager hands out strictly increasing nonces per wallet. They start at
+ * the current time in milliseconds so they stay ahead of nonces used before a
+ * restart. A nonce whose payment record already exists on-chain (e.g. used by
+ * another process with the same wallet) is skipped.
+ */
+
+export const MAX_NONCE_ATTEMPTS = 5;
+
+/**
+ * Thrown when no free nonce was found within MAX_NONCE_ATTEMPTS. Nothing has been signed.
+ */
+export class NonceCollisionError extends Error {
+  readonly code = "PAYMENT_NONCE_COLLISION";
+
+  constructor(attempts: number) {
+    super(`Could not find an unused payment nonce after ${attempts} attempts (payment records already exist on-chain)`);
+    this.name = "NonceCollisionError";
+  }
+}
+
+export class NonceManager {
+  private last = 0n;
+
+  /**
+   * Next nonce: the current time in milliseconds, or one more than the last nonce if that is not larger
+   */
+  next(): bigint {
+    const now = BigInt(Date.now());
+    this.last = now > this.last ? now : this.last + 1n;
+    return this.last;
+  }
+
+  /**
+   * Returns the next nonce whose payment record does not exist yet
+   *
+   * @param isTaken - Resolves true if the payment record PDA for a nonce already exists
+   */
+  async allocate(isTaken: (nonce: bigint) => Promise<boolean>, maxAttempts: number = MAX_NONCE_ATTEMPTS): Promise<bigint> {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      // next() is synchronous, so concurrent callers never receive the same nonce
+      const nonce = this.next();
+      if (!(await isTaken(nonce))) {
+        return nonce;
+      }
+      console.error(`[x402] Payment record for nonce ${nonce} already exists, trying the next nonce`);
+    }
+    throw new NonceCollisionError(maxAttempts);
+  }
+}
+
+const managers = new Map<string, NonceManager>();
+
+/**
+ * Nonce manager shared by every client paying from the given wallet
+ */
+export function getNonceManager(wallet: string): NonceManager {
+  let manager = managers.get(wallet);
+  if (!manager) {
+    manager = new NonceManager();
+    managers.set(wallet, manager);
+  }
+  return manager;
+}
+
+/**
+ * Whether a settlement error means the payment record PDA was already taken.
+ * The transaction fails as a whole in that case, so nothing was paid and it can be re-signed.
+ */
+export function isPaymentRecordCollision(message: string): boolean {
+  return /already in use/i.test(message);
+}
@@ -0,0 +1,232 @@
+/**
+ * Payment Signers for x402
+ *
+ * The x402 client builds payment transactions but never needs the private key
+ * itself; it only asks a PaymentSigner to sign. Three signers are provided:
+ *
+ * - KeypairSigner: in-process keypair from a base58 private key (SOLANA_PRIVATE_KEY)
+ * - keypair file: a Solana CLI id.json file, read at startup (SOLANA_KEYPAIR_PATH)
+ * - ExternalProcessSigner: a separate signer process spoken to over stdio
+ *   with newline-delimited JSON-RPC 2.0, so the key never enters this process
+ *   (UNBROWSE_X402_SIGNER_COMMAND)
+ *
+ * External signer protocol: for each payment the signer receives
+ *   {"jsonrpc":"2.0","id":1,"method":"signTransaction","params":{"publicKey":"<base58>","message":"<base64>"}}
+ * where message is the serialized transaction message, and must reply with
+ *   {"jsonrpc":"2.0","id":1,"result":{"signature":"<base58>"}}
+ * or a JSON-RPC error to refuse. Signatures are verified before use.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { readFileSync } from "fs";
+import { homedir } from "os";
+import { createInterface } from "readline";
+import { Keypair, PublicKey, Transaction } from "@solana/web3.js";
+import bs58 from "bs58";
+
+const SIGN_TIMEOUT_MS = 60000;
+
+export interface PaymentSigner {
+  readonly publicKey: PublicKey;
+  readonly kind: "keypair" | "keypair_file" | "external";
+
+  /**
+   * Adds the wallet's signature to a fully built transaction
+   */
+  signTransaction(tx: Transaction): Promise<Transaction>;
+
+  /**
+   * Releases resources held by the signer (e.g. the external process)
+   */
+  close?(): void;
+}
+
+export class KeypairSigner implements PaymentSigner {
+  readonly publicKey: PublicKey;
+  readonly kind: "keypair" | "keypair_file";
+  private readonly keypair: Keypair;
+
+  constructor(keypair: Keypair, kind: "keypair" | "keypair_file" = "keypair") {
+    this.keypair = keypair;
+    this.publicKey = keypair.publicKey;
+    this.kind = kind;
+  }
+
+  /**
+   * Signer for a base58 encoded private key
+   */
+  static fromBase58(privateKey: string): KeypairSigner {
+    try {
+      return new KeypairSigner(Keypair.fromSecretKey(bs58.decode(privateKey)));
+    } catch (error) {
+      throw new Error(
+        `Invalid Solana private key: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  /**
+   * Signer for a Solana CLI keypair file (JSON array of 64 secret key bytes)
+   */
+  static fromFile(path: string): KeypairSigner {
+    const filePath = path.replace(/^~(?=$|[\\/])/, homedir());
+    try {
+      const secretKey = Uint8Array.from(JSON.parse(readFileSync(filePath, "utf8")));
+      return new KeypairSigner(Keypair.fromSecretKey(secretKey), "keypair_file");
+    } catch (error) {
+      throw new Error(
+        `Invalid Solana keypair file ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async signTransaction(tx: Transaction): Promise<Transaction> {
+    tx.partialSign(this.keypair);
+    return tx;
+  }
+}
+
+export class ExternalProcessSigner implements PaymentSigner {
+  readonly publicKey: PublicKey;
+  readonly kind = "external" as const;
+  private readonly command: string;
+  private child: ChildProcess | null = null;
+  private nextId = 1;
+  private readonly pending = new Map<number, { resolve: (result: any) => void; reject: (error: Error) => void }>();
+
+  /**
+   * @param command - Shell command that starts the signer process
+   * @param publicKey - Base58 wallet address the signer signs for
+   */
+  constructor(command: string, publicKey: string) {
+    this.command = command;
+    try {
+      this.publicKey = new PublicKey(publicKey);
+    } catch {
+      throw new Error(`Invalid external signer public key: ${publicKey}`);
+    }
+  }
+
+  async signTransaction(tx: Transaction): Promise<Transaction> {
+    const message = tx.serializeMessage();
+    const result = await this.request("signTransaction", {
+      publicKey: this.publicKey.toBase58(),
+      message: message.toString("base64"),
+    });
+
+    let signature: Buffer;
+    try {
+      signature = Buffer.from(bs58.decode(String(result?.signature)));
+      tx.addSignature(this.publicKey, signature);
+    } catch (error: any) {
+      throw new Error(`External signer returned an invalid signature: ${error.message}`);
+    }
+    if (!tx.verifySignatures(false)) {
+      throw new Error(`External signer returned a signature that does not match ${this.publicKey.toBase58()}`);
+    }
+    return tx;
+  }
+
+  close(): void {
+    this.child?.kill();
+    this.child = null;
+  }
+
+  private request(method: string, params: Record<string, any>): Promise<any> {
+    const child = this.start();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`External signer did not answer ${method} within ${SIGN_TIMEOUT_MS}ms`));
+      }, SIGN_TIMEOUT_MS);
+
+      this.pending.set(id, {
+        resolve: (result) => { clearTimeout(timer); resolve(result); },
+        reject: (error) => { clearTimeout(timer); reject(error); },
+      });
+      child.stdin!.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+    });
+  }
+
+  private start(): ChildProcess {
+    if (this.child) {
+      return this.child;
+    }
+
+    console.error(`[x402] Starting external signer: ${this.command}`);
+    const child = spawn(this.command, { shell: true, stdio: ["pipe", "pipe", "pipe"] });
+    this.child = child;
+
+    createInterface({ input: child.stdout! }).on("line", (line) => {
+      let message: any;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        console.error(`[x402] Ignoring non-JSON output from external signer: ${line}`);
+        return;
+      }
+      const handler = this.pending.get(message.id);
+      if (!handler) return;
+      this.pending.delete(message.id);
+      if (message.error) {
+        handler.reject(new Error(`External signer refused: ${message.error.message || JSON.stringify(message.error)}`));
+      } else {
+        handler.resolve(message.result);
+      }
+    });
+    createInterface({ input: child.stderr! }).on("line", (line) => {
+      console.error(`[x402 signer] ${line}`);
+    });
+
+    const fail = (error: Error) => {
+      if (this.child === child) {
+        this.child = null;
+      }
+      for (const handler of this.pending.values()) {
+        handler.reject(error);
+      }
+      this.pending.clear();
+    };
+    child.on("error", (error) => fail(new Error(`External signer failed: ${error.message}`)));
+    child.on("exit", (code, signal) => fail(new Error(`External signer exited (${signal || `code ${code}`})`)));
+    child.stdin!.on("error", () => {}); // Reported through the exit handler
+
+    // The signer must not keep this process alive on its own
+    child.unref();
+    [child.stdin, child.stdout, child.stderr].forEach((stream: any) => stream?.unref?.());
+
+    return child;
+  }
+}
+
+/**
+ * Creates the signer for the configured source: an external signer command,
+ * a keypair file, or a base58 private key (checked in that order)
+ */
+export function createPaymentSigner(options: {
+  privateKey?: string;
+  keypairPath?: string;
+  signerCommand?: string;
+  signerPublicKey?: string;
+}): PaymentSigner | null {
+  const configured = [options.signerCommand, options.keypairPath, options.privateKey].filter(Boolean).length;
+  if (configured > 1) {
+    console.warn(`[WARN] More than one x402 signer configured; using ${options.signerCommand ? "the external signer" : "the keypair file"}`);
+  }
+
+  if (options.signerCommand) {
+    if (!options.signerPublicKey) {
+      throw new Error("An external x402 signer requires its wallet address (UNBROWSE_X402_SIGNER_PUBKEY)");
+    }
+    return new ExternalProcessSigner(options.signerCommand, options.signerPublicKey);
+  }
+  if (options.keypairPath) {
+    return KeypairSigner.fromFile(options.keypairPath);
+  }
+  if (options.privateKey) {
+    return KeypairSigner.fromBase58(options.privateKey);
+  }
+  return null;
+}
@@ -7,37 +7,30 @@
  */
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import createServer, { configSchema } from "./index.js";
+import createServer from "./index.js";
+import { ConfigError, hasAuthConfig, loadConfig, printConfigHelp } from "./config-loader.js";
+import { runKeygen } from "./keygen.js";
+import { CLI_COMMANDS, runCliCommand } from "./cli-commands.js";
+import { runDoctor } from "./doctor.js";
 
 // CRITICAL: Redirect console.log to stderr BEFORE anything else
 // MCP protocol uses stdout for JSON-RPC, so ALL logging must go to stderr
-const originalLog = console.log;
 console.log = (...args) => console.error(...args);
 
-async function main() {
-  // Read config from environment variables
-  const config = {
-    solanaPrivateKey: process.env.SOLANA_PRIVATE_KEY || process.env.UNBROWSE_SOLANA_KEY,
-    solanaRpcUrl: process.env.SOLANA_RPC_URL,
-    apiKey: process.env.UNBROWSE_API_KEY,
-    sessionToken: process.env.UNBROWSE_SESSION_TOKEN,
-    password: process.env.UNBROWSE_PASSWORD || process.env.UNBROWSE_CREDENTIAL_KEY,
-    debug: process.env.DEBUG === 'true',
-    enableIndexTool: process.env.ENABLE_INDEX_TOOL === 'true',
-    devMode: process.env.DEV_MODE === 'true' || process.env.UNBROWSE_DEV_MODE === 'true',
-  };
+async function main(args: string[]) {
+  // Read config from the config file profile and environment variables
+  let config: ReturnType<typeof loadConfig>["config"];
+  try {
+    ({ config } = loadConfig(args));
+  } catch (error: any) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(`Configuration error: ${error.message}`);
+    process.exit(1);
+  }
 
   // Validate config
-  if (!config.apiKey && !config.sessionToken && !config.solanaPrivateKey) {
-    console.error("Configuration error: Authentication required");
-    console.error("\nRequired environment variables (one of):");
-    console.error("  SOLANA_PRIVATE_KEY - Solana private key for x402 mode (recommended)");
-    console.error("  UNBROWSE_API_KEY - Your Unbrowse API key (starts with re_)");
-    console.error("  UNBROWSE_SESSION_TOKEN - Your session token");
-    console.error("\nOptional environment variables:");
-    console.error("  UNBROWSE_PASSWORD - Password for credential decryption");
-    console.error("  DEV_MODE - Set to 'true' to enable developer mode");
-    console.error("  ENABLE_INDEX_TOOL - Set to 'true' to enable the ingest_api_endpoint tool");
+  if (!hasAuthConfig(config)) {
+    printConfigHelp();
     process.exit(1);
   }
 
@@ -61,7 +54,19 @@ async function main() {
   }
 }
 
-main().catch((error) => {
+const exitWithError = (error: unknown) => {
   console.error("[FATAL] Unhandled error:", error);
   process.exit(1);
-});
+};
+
+const [command, ...commandArgs] = process.argv.slice(2);
+
+if (command === "keygen") {
+  process.exit(runKeygen(commandArgs));
+} else if (command === "doctor") {
+  runDoctor(commandArgs).then((code) => process.exit(code)).catch(exitWithError);
+} else if (CLI_COMMANDS.includes(command)) {
+  runCliCommand(command, commandArgs).then((code) => process.exit(code)).catch(exitWithError);
+} else {
+  main(process.argv.slice(2)).catch(exitWithError);
+}
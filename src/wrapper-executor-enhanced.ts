@@ -2,14 +2,22 @@
  * Enhanced Wrapper Execution Engine for Unbrowse MCP
  *
  * Enhancements:
- * - 401+ error detection and credential expiration
+ * - 401/403 detection and credential expiration
  * - Automatic login ability suggestions
  * - Dependency order validation
+ * - Wrapper code runs in a hardened sandbox (see wrapper-sandbox.ts)
  */
 
 import type { UnbrowseApiClient } from "./api-client.js";
-import vm from "vm";
 import { ProxyAgent } from "undici";
+import { randomUUID } from "crypto";
+import {
+  buildSandboxEnv,
+  runHeaderCodeInSandbox,
+  runTransformInSandbox,
+  runWrapperInSandbox,
+  type SandboxLimits,
+} from "./wrapper-sandbox.js";
 
 /**
  * Interface for wrapper execution result
@@ -29,7 +37,26 @@ export interface WrapperExecutionResult {
   executedAt: string;
 }
 
-interface WrapperData {
+/**
+ * Declarative static header value. A plain string is a literal.
+ * - env: read from the wrapper's sandbox env (allowlisted variables only)
+ * - timestamp: current time in seconds (default), milliseconds or ISO format
+ * - uuid: random v4 UUID
+ */
+export type StaticHeaderValue =
+  | string
+  | { type: "literal"; value: string }
+  | { type: "env"; name: string }
+  | { type: "timestamp"; unit?: "s" | "ms" | "iso" }
+  | { type: "uuid" };
+
+export interface StaticHeader {
+  key: string; // "domain::Header-Name"
+  value?: StaticHeaderValue;
+  value_code?: string; // Legacy JS expression, e.g. "() => 'value'" - only evaluated in the sandbox
+}
+
+export interface WrapperData {
   input: {
     session_id?: string;
     service_name: string;
@@ -37,10 +64,7 @@ interface WrapperData {
     ability_name: string;
     description?: string;
     wrapper_code: string;
-    static_headers: Array<{
-      key: string;
-      value_code: string;
-    }>;
+    static_headers: StaticHeader[];
     dynamic_header_keys: string[];
     input_schema: any;
     dependency_order?: string[];
@@ -63,111 +87,318 @@ interface WrapperData {
   updatedAt?: string;
 }
 
+const MAX_REDIRECTS = 20;
+
+// Headers that should be auto-calculated by fetch; they cause errors if set manually
+const FORBIDDEN_HEADERS = new Set([
+  'content-length',    // Causes UND_ERR_REQ_CONTENT_LENGTH_MISMATCH
+  'transfer-encoding', // Can cause chunking issues
+  'host',              // Should match the URL automatically
+  'connection',        // Forbidden in fetch API
+  'keep-alive',        // Forbidden in fetch API
+  'upgrade',           // Forbidden in fetch API
+]);
+
+// Wrapper-supplied headers dropped when a redirect leaves the original origin
+const CROSS_ORIGIN_SENSITIVE_HEADERS = new Set(['authorization', 'cookie', 'proxy-authorization']);
+
+/**
+ * Normalizes a domain or URL ("https://api.example.com:443/x", ".example.com") to a bare hostname
+ */
+function normalizeHost(value: string): string {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed.includes("://")) {
+    try {
+      return new URL(trimmed).hostname;
+    } catch {
+      return trimmed;
+    }
+  }
+  return trimmed.replace(/^\*?\./, "").replace(/:\d+$/, "").replace(/\.$/, "");
+}
+
+/**
+ * True when hostname is the given domain or one of its subdomains ("*" matches any host)
+ */
+function hostMatchesDomain(hostname: string, domain: string): boolean {
+  const host = normalizeHost(hostname);
+  const base = normalizeHost(domain);
+  if (!base) return false;
+  return base === "*" || host === base || host.endsWith(`.${base}`);
+}
+
+/**
+ * True when hostname is exactly the given domain (no subdomains, no wildcard)
+ */
+function hostIsDomain(hostname: string, domain: string): boolean {
+  const base = normalizeHost(domain);
+  return !!base && normalizeHost(hostname) === base;
+}
+
+/**
+ * Hosts a wrapper may contact: the ability's domain, the domains its
+ * credentials belong to and the configured allowlist
+ */
+function resolveEgressHosts(
+  abilityDomain: string | undefined,
+  dynamicHeaderKeys: string[],
+  egressAllowlist: string[] = [],
+): string[] {
+  const hosts = new Set<string>();
+  const add = (value: string | undefined) => {
+    const host = value ? normalizeHost(value) : "";
+    if (host) hosts.add(host);
+  };
+
+  add(abilityDomain);
+  dynamicHeaderKeys.forEach((key) => add(key.split("::")[0]));
+  egressAllowlist.forEach(add);
+  return Array.from(hosts);
+}
+
+/**
+ * Merges header layers case-insensitively (later layers win), joining Cookie values
+ */
+function mergeHeaders(...layers: Array<Record<string, string>>): Record<string, string> {
+  const merged = new Map<string, { name: string; value: string }>();
+  const cookies: string[] = [];
+
+  for (const layer of layers) {
+    for (const [name, value] of Object.entries(layer)) {
+      const lower = name.toLowerCase();
+      if (FORBIDDEN_HEADERS.has(lower)) continue;
+      if (lower === 'cookie') {
+        cookies.push(value);
+        continue;
+      }
+      merged.set(lower, { name, value });
+    }
+  }
+
+  const headers: Record<string, string> = {};
+  for (const { name, value } of merged.values()) {
+    headers[name] = value;
+  }
+  if (cookies.length > 0) {
+    headers['Cookie'] = cookies.join('; ');
+  }
+  return headers;
+}
+
+function toHeaderRecord(headers: RequestInit["headers"]): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+/**
+ * Resolves a declarative static header value, or undefined if it cannot be resolved
+ */
+function resolveStaticHeaderValue(
+  value: StaticHeaderValue,
+  env: Record<string, string>,
+): string | undefined {
+  if (typeof value === "string") {
+    return value;
+  }
+  switch (value.type) {
+    case "literal":
+      return value.value;
+    case "env":
+      return env[value.name];
+    case "timestamp":
+      if (value.unit === "ms") return String(Date.now());
+      if (value.unit === "iso") return new Date().toISOString();
+      return String(Math.floor(Date.now() / 1000));
+    case "uuid":
+      return randomUUID();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Evaluates static headers. Declarative values are resolved here; legacy
+ * value_code expressions are evaluated together in a single sandbox run.
+ *
+ * @returns Values keyed by the full "domain::Header-Name" key
+ */
+async function evaluateStaticHeaders(
+  staticHeaders: StaticHeader[],
+  env: Record<string, string>,
+  limits: Partial<SandboxLimits> = {},
+): Promise<Record<string, string>> {
+  const evaluatedStaticHeaders: Record<string, string> = {};
+  const legacyCode: Record<string, string> = {};
+
+  for (const header of staticHeaders) {
+    if (!header.key.split("::")[1]) continue;
+
+    if (header.value !== undefined) {
+      const value = resolveStaticHeaderValue(header.value, env);
+      if (value === undefined) {
+        console.error(`[WARN] Could not resolve static header ${header.key}, skipping it`);
+      } else {
+        evaluatedStaticHeaders[header.key] = value;
+      }
+    } else if (header.value_code) {
+      legacyCode[header.key] = header.value_code;
+    }
+  }
+
+  if (Object.keys(legacyCode).length > 0) {
+    try {
+      const results = await runHeaderCodeInSandbox(legacyCode, env, limits);
+      for (const [key, result] of Object.entries(results)) {
+        if (result.error !== undefined) {
+          console.error(`[WARN] Failed to evaluate static header ${key}: ${result.error}`);
+        } else if (result.value !== undefined) {
+          evaluatedStaticHeaders[key] = result.value;
+        }
+      }
+    } catch (error: any) {
+      console.error(`[WARN] Failed to evaluate static headers: ${error.message || error}`);
+    }
+  }
+
+  return evaluatedStaticHeaders;
+}
+
 /**
  * Creates a fetch override function that injects headers from provided credentials
- * and optionally uses a proxy from environment variables
+ * and optionally sends requests through a proxy.
+ *
+ * Requests are limited to allowedHosts, including every redirect hop. Static
+ * headers and credentials are only attached to requests for the exact host in
+ * their "domain::Header-Name" key (static headers without a domain use abilityHost).
  */
 function createFetchOverride(
   serviceName: string,
-  staticHeaders: Array<{ key: string; value_code: string }>,
+  resolveStaticHeaders: () => Promise<Record<string, string>>,
   dynamicHeaderKeys: string[],
   injectedCredentials: Record<string, string>,
+  allowedHosts: string[],
+  abilityHost: string,
+  proxyUrl: string | undefined,
 ) {
-  // Create ProxyAgent if proxy URL is configured in environment
-  const proxyUrl = process.env['PROXY_URL'];
   const proxyAgent = proxyUrl ? new ProxyAgent(proxyUrl) : undefined;
 
-  if (proxyAgent) {
+  if (proxyUrl) {
     console.error(`[INFO] Using proxy: ${proxyUrl.replace(/:[^:@]+@/, ':****@')}`);
   }
 
-  return async function overriddenFetch(
-    url: string | URL | Request,
-    init?: RequestInit,
-  ): Promise<Response> {
-    // Use injected credentials directly (already filtered by endpoint)
-    const dynamicHeaders: Record<string, string> = injectedCredentials;
-
-    // Evaluate static headers
-    const evaluatedStaticHeaders: Record<string, string> = {};
-    for (const header of staticHeaders) {
-      try {
-        const headerName = header.key.split("::")[1];
-        if (headerName) {
-          // Use Function constructor instead of eval for bundler compatibility
-          // value_code format: "() => 'value'"
-          const evalFn = new Function(`return (${header.value_code})`)();
-          evaluatedStaticHeaders[headerName] = evalFn();
-        }
-      } catch (error) {
-        console.warn(
-          `[WARN] Failed to evaluate static header ${header.key}:`,
-          error,
-        );
+  const blockedRequests: string[] = [];
+
+  // Static headers are resolved once per execution, on the first request
+  let staticHeadersPromise: Promise<Record<string, string>> | undefined;
+  const getStaticHeaders = () => (staticHeadersPromise ??= resolveStaticHeaders());
+
+  // Picks the "domain::Header-Name" entries whose domain is the request host
+  const headersForHost = (
+    values: Record<string, string>,
+    keys: string[],
+    hostname: string,
+    defaultDomain = "",
+  ): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    for (const key of keys) {
+      const [keyDomain = "", headerName] = key.split("::");
+      if (headerName && values[key] && hostIsDomain(hostname, keyDomain || defaultDomain)) {
+        headers[headerName] = values[key];
       }
     }
+    return headers;
+  };
 
-    // Extract header names from dynamic header keys
-    const dynamicHeaderNames: Record<string, string> = {};
-    for (const key of dynamicHeaderKeys) {
-      const headerName = key.split("::")[1];
-      if (headerName && dynamicHeaders[key]) {
-        dynamicHeaderNames[headerName] = dynamicHeaders[key];
-      }
+  const assertEgressAllowed = (target: URL) => {
+    if (allowedHosts.some((host) => hostMatchesDomain(target.hostname, host))) {
+      return;
     }
+    const message = `Request to ${target.hostname} blocked: ${serviceName} wrappers may only contact ${
+      allowedHosts.length > 0 ? allowedHosts.join(", ") : "(no hosts)"
+    }. Add the host to UNBROWSE_WRAPPER_EGRESS_ALLOWLIST to allow it.`;
+    blockedRequests.push(message);
+    console.error(`[WARN] ${message}`);
+    throw new Error(message);
+  };
 
-    // Merge headers with special handling for Cookie headers
-    const originalHeaders = (init?.headers as Record<string, string>) || {};
-    const mergedHeaders: Record<string, string> = {
-      ...evaluatedStaticHeaders,
-      ...dynamicHeaderNames,
-      ...originalHeaders,
-    };
-
-    // Special case: Merge Cookie headers instead of overriding
-    const cookieHeaders: string[] = [];
-    if (evaluatedStaticHeaders['Cookie']) cookieHeaders.push(evaluatedStaticHeaders['Cookie']);
-    if (dynamicHeaderNames['Cookie']) cookieHeaders.push(dynamicHeaderNames['Cookie']);
-    if (originalHeaders['Cookie']) cookieHeaders.push(originalHeaders['Cookie']);
-    if (cookieHeaders.length > 1) {
-      // Merge multiple cookie headers with semicolon separator
-      mergedHeaders['Cookie'] = cookieHeaders.join('; ');
-    }
+  async function overriddenFetch(
+    url: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> {
+    const initialUrl = new URL(typeof url === "string" ? url : url instanceof URL ? url.href : url.url);
+    const evaluatedStaticHeaders = await getStaticHeaders();
+    const originalHeaders = toHeaderRecord(init?.headers);
+    const followRedirects = (init?.redirect ?? "follow") === "follow";
+
+    let currentUrl = initialUrl;
+    let method = (init?.method || "GET").toUpperCase();
+    let body = init?.body;
+
+    // Redirects are followed here so every hop goes through the egress check
+    for (let redirects = 0; ; redirects++) {
+      assertEgressAllowed(currentUrl);
+
+      const crossOrigin = currentUrl.origin !== initialUrl.origin;
+      const wrapperHeaders = crossOrigin
+        ? Object.fromEntries(
+            Object.entries(originalHeaders).filter(([name]) => !CROSS_ORIGIN_SENSITIVE_HEADERS.has(name)),
+          )
+        : originalHeaders;
+
+      const response = await fetch(currentUrl, {
+        ...init,
+        method,
+        body,
+        headers: mergeHeaders(
+          headersForHost(evaluatedStaticHeaders, Object.keys(evaluatedStaticHeaders), currentUrl.hostname, abilityHost),
+          headersForHost(injectedCredentials, dynamicHeaderKeys, currentUrl.hostname),
+          wrapperHeaders,
+        ),
+        redirect: "manual",
+        // Add proxy dispatcher if configured
+        ...(proxyAgent ? { dispatcher: proxyAgent } : {}),
+      } as RequestInit);
+
+      const location = response.headers.get("location");
+      if (!followRedirects || ![301, 302, 303, 307, 308].includes(response.status) || !location) {
+        return response;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
 
-    // Remove forbidden/problematic headers that should be auto-calculated by fetch
-    // These headers cause errors if manually set or modified
-    const forbiddenHeaders = [
-      'Content-Length',    // Causes UND_ERR_REQ_CONTENT_LENGTH_MISMATCH
-      'content-length',
-      'Transfer-Encoding', // Can cause chunking issues
-      'transfer-encoding',
-      'Host',              // Should match the URL automatically
-      'host',
-      'Connection',        // Forbidden in fetch API
-      'connection',
-      'Keep-Alive',        // Forbidden in fetch API
-      'keep-alive',
-      'Upgrade',           // Forbidden in fetch API
-      'upgrade',
-    ];
-
-    for (const header of forbiddenHeaders) {
-      delete mergedHeaders[header];
+      await response.body?.cancel();
+      // 303 always switches to GET; 301/302 only do so for POST (matching fetch)
+      const switchToGet = response.status === 303
+        ? method !== "HEAD"
+        : (response.status === 301 || response.status === 302) && method === "POST";
+      if (switchToGet) {
+        method = "GET";
+        body = undefined;
+      }
+      currentUrl = new URL(location, currentUrl);
     }
+  }
 
-    const newInit: RequestInit = {
-      ...init,
-      headers: mergedHeaders,
-      // Add proxy dispatcher if configured
-      ...(proxyAgent ? { dispatcher: proxyAgent } : {}),
-    };
+  return { fetch: overriddenFetch, blockedRequests };
+}
 
-    return fetch(url, newInit);
-  };
+/**
+ * Sandbox settings for wrapper execution
+ */
+export interface WrapperSandboxOptions {
+  envAllowlist?: string[]; // Host env vars visible to wrapper code (exact names or "PREFIX_*")
+  limits?: Partial<SandboxLimits>;
+  abilityDomain?: string; // Falls back to the host of the wrapper's url
+  egressAllowlist?: string[]; // Extra hosts the wrapper may contact (subdomains included, "*" for any)
+  proxyUrl?: string; // Proxy for the wrapper's requests (falls back to PROXY_URL)
 }
 
 /**
- * Executes a wrapper with credential injection and 401+ error handling
+ * Executes a wrapper with credential injection and 401/403 handling
  */
 export async function executeWrapper(
   abilityId: string,
@@ -177,6 +408,7 @@ export async function executeWrapper(
   providedWrapperData?: WrapperData,
   secret?: string,
   apiClient: UnbrowseApiClient | null = null,
+  sandboxOptions: WrapperSandboxOptions = {},
 ): Promise<WrapperExecutionResult> {
   const executedAt = new Date().toISOString();
 
@@ -201,10 +433,6 @@ export async function executeWrapper(
       // Fetch wrapper data from API instead of local storage
       const apiResponse = await apiClient.getAbility(abilityId);
 
-      console.error(`[TRACE] ========== FULL API RESPONSE ==========`);
-      console.error(JSON.stringify(apiResponse, null, 2));
-      console.error(`[TRACE] ==========================================`);
-
       if (!apiResponse.success || !apiResponse.wrapper) {
         return {
           success: false,
@@ -216,10 +444,6 @@ export async function executeWrapper(
       wrapperData = apiResponse.wrapper;
     }
 
-    console.error(`[TRACE] ========== WRAPPER DATA STRUCTURE ==========`);
-    console.error(JSON.stringify(wrapperData, null, 2));
-    console.error(`[TRACE] ===============================================`);
-
     const {
       service_name,
       wrapper_code,
@@ -228,7 +452,7 @@ export async function executeWrapper(
       dependency_order,
     } = wrapperData.input;
 
-    console.error(`[TRACE] Extracted wrapper code starts with:`, wrapper_code.substring(0, 100));
+    console.error(`[TRACE] Loaded wrapper for ${abilityId} (service: ${service_name})`);
 
     // Check for missing dependencies
     if (
@@ -245,34 +469,30 @@ export async function executeWrapper(
       };
     }
 
+    const abilityHost = normalizeHost(sandboxOptions.abilityDomain || wrapperData.input.url || "");
+    const allowedHosts = resolveEgressHosts(
+      abilityHost,
+      dynamic_header_keys,
+      sandboxOptions.egressAllowlist,
+    );
+
+    // Only allowlisted env vars (and the secret) are visible to wrapper code and static headers
+    const sandboxEnv = buildSandboxEnv(
+      sandboxOptions.envAllowlist || [],
+      secret ? { SECRET: secret } : {},
+    );
+
     // Create fetch override with header injection using provided credentials
     const fetchOverride = createFetchOverride(
       service_name,
-      static_headers,
+      () => evaluateStaticHeaders(static_headers || [], sandboxEnv, sandboxOptions.limits),
       dynamic_header_keys,
       injectedCredentials,
+      allowedHosts,
+      abilityHost,
+      sandboxOptions.proxyUrl ?? process.env['PROXY_URL'],
     );
 
-    // Create sandbox context with access to process.env and secret
-    const sandbox = {
-      fetch: fetchOverride,
-      console,
-      URL,
-      Error,
-      Response,
-      Headers,
-      Request,
-      Buffer,
-      process: {
-        env: {
-          ...process.env,
-          ...(secret ? { SECRET: secret } : {}),
-        },
-      },
-    };
-
-    const context = vm.createContext(sandbox);
-
     // Strip ES6 export keywords since we're executing in a VM context
     // The wrapper function will be available in the sandbox scope
     let cleanedCode = wrapper_code
@@ -282,36 +502,44 @@ export async function executeWrapper(
       .replace(/export\s+let/g, 'let')
       .replace(/export\s+var/g, 'var');
 
-    // Wrap in IIFE to execute and capture the wrapper function
-    const moduleWrapper = `
-      (function() {
-        ${cleanedCode}
-        return wrapper;
-      })()
-    `;
-
-    console.error(`[TRACE] Executing wrapper code (exports stripped)`);
-
-    // Execute wrapper code
-    const script = new vm.Script(moduleWrapper);
-    const wrapperFn = script.runInContext(context);
-
-    if (!wrapperFn || typeof wrapperFn !== "function") {
-      return {
-        success: false,
-        error: "Wrapper function not found in wrapper code",
-        executedAt,
-      };
+    console.error(`[TRACE] Executing wrapper code in sandbox (exports stripped)`);
+
+    // Execute wrapper in the sandbox; its requests come back here through fetchOverride
+    let sandboxResponse;
+    try {
+      sandboxResponse = await runWrapperInSandbox(
+        cleanedCode,
+        payload,
+        options,
+        fetchOverride.fetch,
+        sandboxEnv,
+        sandboxOptions.limits,
+      );
+    } catch (error: any) {
+      // Report the egress block rather than whatever the wrapper did with the failed fetch
+      if (fetchOverride.blockedRequests.length > 0) {
+        return {
+          success: false,
+          error: fetchOverride.blockedRequests[0],
+          executedAt,
+        };
+      }
+      throw error;
     }
 
-    // Execute wrapper
-    const response: Response = await wrapperFn(payload, options);
+    const nullBodyStatus = [101, 204, 205, 304].includes(sandboxResponse.status);
+    const response = new Response(nullBodyStatus ? null : sandboxResponse.body, {
+      status: sandboxResponse.status,
+      statusText: sandboxResponse.statusText,
+      headers: sandboxResponse.headers,
+    });
 
     const statusCode = response.status;
     const ok = response.ok;
 
-    // Handle 401+ errors (authentication/authorization failures)
-    if (statusCode >= 401 && statusCode < 500) {
+    // Handle authentication/authorization failures. Other 4xx responses (bad params,
+    // rate limits) say nothing about the credentials, so they are left alone.
+    if (statusCode === 401 || statusCode === 403) {
       // Mark credentials as expired via API (if apiClient is available)
       if (apiClient) {
         try {
@@ -388,6 +616,18 @@ export async function executeWrapper(
   }
 }
 
+/**
+ * Applies user-provided transform code to a response body, mirroring the
+ * server-side transformCode option for local executions
+ */
+export async function applyTransformCode(
+  transformCode: string,
+  data: any,
+  limits: Partial<SandboxLimits> = {},
+): Promise<any> {
+  return runTransformInSandbox(transformCode, data, limits);
+}
+
 /**
  * Lists available wrappers
  */
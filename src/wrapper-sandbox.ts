@@ -0,0 +1,616 @@
+/**
+ * Hardened Sandbox for Wrapper Code
+ *
+ * Wrapper code is third-party code, so it runs in two layers of isolation:
+ * 1. A worker thread with V8 resource limits and an empty process.env. The
+ *    main thread terminates it when the wall-clock timeout expires, so
+ *    infinite loops (sync or async) cannot hang the server.
+ * 2. A vm context inside the worker whose globals are all created inside the
+ *    context realm. No host objects (Buffer, process, require, host classes)
+ *    are reachable, so constructor-chain escapes lead nowhere.
+ *
+ * The context talks to the worker through a single bridge function that only
+ * accepts and returns strings; errors raised while calling it are swallowed on
+ * both sides, so worker-realm errors never reach wrapper code. As a backstop,
+ * the worker drops require and the process methods that load native modules.
+ * Network requests are forwarded to the main
+ * thread, which performs them with the caller's fetch implementation - that
+ * is where credentials are injected, so they never enter the sandbox.
+ */
+
+import { Worker } from "worker_threads";
+
+/**
+ * Limits applied to every sandboxed run
+ */
+export interface SandboxLimits {
+  timeoutMs: number; // Wall-clock limit for the whole run, including requests
+  memoryLimitMb: number; // V8 old generation size for the worker
+}
+
+export const DEFAULT_SANDBOX_LIMITS: SandboxLimits = {
+  timeoutMs: 30000,
+  memoryLimitMb: 64,
+};
+
+/**
+ * Environment variables that are never exposed to wrapper code,
+ * even if they match the allowlist
+ */
+const SENSITIVE_ENV_VARS = new Set([
+  "SOLANA_PRIVATE_KEY",
+  "UNBROWSE_SOLANA_KEY",
+  "SOLANA_KEYPAIR_PATH",
+  "UNBROWSE_X402_SIGNER_COMMAND",
+  "UNBROWSE_API_KEY",
+  "UNBROWSE_SESSION_TOKEN",
+  "UNBROWSE_PASSWORD",
+  "UNBROWSE_CREDENTIAL_KEY",
+  "SENTRY_DSN",
+  "PROXY_URL",
+]);
+
+/**
+ * Builds the process.env visible to wrapper code from an allowlist.
+ * Entries are exact names or prefixes ending in "*" (e.g. "MYAPP_*").
+ */
+export function buildSandboxEnv(
+  allowlist: string[],
+  extra: Record<string, string> = {},
+): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (value === undefined || SENSITIVE_ENV_VARS.has(name)) continue;
+
+    const allowed = allowlist.some((entry) =>
+      entry.endsWith("*") ? name.startsWith(entry.slice(0, -1)) : name === entry,
+    );
+    if (allowed) {
+      env[name] = value;
+    }
+  }
+
+  return { ...env, ...extra };
+}
+
+/**
+ * Serializable description of an HTTP response crossing the sandbox boundary
+ */
+export interface SandboxResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  url?: string;
+}
+
+export type SandboxFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+type SandboxJob =
+  | { mode: "wrapper"; code: string; payload: any; options: any; env: Record<string, string> }
+  | { mode: "transform"; code: string; data: any }
+  | { mode: "headers"; headers: Record<string, string>; env: Record<string, string> };
+
+// Runs inside the vm context. Captures the bridge and installs context-realm globals.
+const CONTEXT_BOOTSTRAP = String.raw`
+"use strict";
+(() => {
+  const bridge = globalThis.__bridge;
+  delete globalThis.__bridge;
+  const input = JSON.parse(globalThis.__input);
+  delete globalThis.__input;
+
+  const pendingCalls = new Map();
+  // The bridge never throws on purpose, but a call can still fail on entry (e.g. stack
+  // overflow). Such errors come from the worker realm, so they are replaced, never rethrown.
+  const call = (op, arg) => {
+    const json = JSON.stringify(arg === undefined ? null : arg);
+    let failed = false;
+    let result;
+    try {
+      result = bridge(op, json);
+    } catch {
+      failed = true;
+    }
+    if (failed) throw new Error("Sandbox call '" + op + "' failed");
+    return result;
+  };
+  const callAsync = (op, arg) =>
+    new Promise((resolve) => {
+      pendingCalls.set(call(op, arg), resolve);
+    });
+
+  const stringify = (value) => {
+    if (typeof value === "string") return value;
+    if (value instanceof Error) return value.stack || value.message;
+    try { return JSON.stringify(value); } catch { return String(value); }
+  };
+  const log = (level) => (...args) => { call("log", { level, message: args.map(stringify).join(" ") }); };
+  const console = { log: log("log"), info: log("info"), warn: log("warn"), error: log("error"), debug: log("debug") };
+
+  class Headers {
+    constructor(init) {
+      this._map = new Map();
+      if (!init) return;
+      if (init instanceof Headers) init.forEach((value, key) => this.append(key, value));
+      else if (Array.isArray(init)) init.forEach(([key, value]) => this.append(key, value));
+      else Object.keys(init).forEach((key) => this.append(key, init[key]));
+    }
+    append(key, value) {
+      const name = String(key).toLowerCase();
+      const existing = this._map.get(name);
+      this._map.set(name, existing !== undefined ? existing + ", " + String(value) : String(value));
+    }
+    set(key, value) { this._map.set(String(key).toLowerCase(), String(value)); }
+    get(key) { const value = this._map.get(String(key).toLowerCase()); return value === undefined ? null : value; }
+    has(key) { return this._map.has(String(key).toLowerCase()); }
+    delete(key) { this._map.delete(String(key).toLowerCase()); }
+    forEach(callback) { this._map.forEach((value, key) => callback(value, key, this)); }
+    entries() { return this._map.entries(); }
+    keys() { return this._map.keys(); }
+    values() { return this._map.values(); }
+    [Symbol.iterator]() { return this._map.entries(); }
+  }
+
+  const decode = (value) => decodeURIComponent(value.replace(/\+/g, " "));
+  const encode = (value) => encodeURIComponent(value).replace(/%20/g, "+");
+
+  class URLSearchParams {
+    constructor(init) {
+      this._pairs = [];
+      if (init === undefined || init === null) return;
+      if (typeof init === "string") {
+        const query = init.startsWith("?") ? init.slice(1) : init;
+        for (const part of query.split("&")) {
+          if (!part) continue;
+          const index = part.indexOf("=");
+          this._pairs.push(index === -1 ? [decode(part), ""] : [decode(part.slice(0, index)), decode(part.slice(index + 1))]);
+        }
+      } else if (init instanceof URLSearchParams) {
+        this._pairs = init._pairs.map(([key, value]) => [key, value]);
+      } else if (Array.isArray(init)) {
+        this._pairs = init.map(([key, value]) => [String(key), String(value)]);
+      } else {
+        this._pairs = Object.keys(init).map((key) => [key, String(init[key])]);
+      }
+    }
+    append(key, value) { this._pairs.push([String(key), String(value)]); }
+    set(key, value) {
+      const name = String(key);
+      const index = this._pairs.findIndex(([k]) => k === name);
+      if (index === -1) {
+        this._pairs.push([name, String(value)]);
+        return;
+      }
+      this._pairs[index][1] = String(value);
+      this._pairs = this._pairs.filter(([k], i) => k !== name || i === index);
+    }
+    get(key) { const pair = this._pairs.find(([k]) => k === String(key)); return pair ? pair[1] : null; }
+    getAll(key) { return this._pairs.filter(([k]) => k === String(key)).map(([, v]) => v); }
+    has(key) { return this._pairs.some(([k]) => k === String(key)); }
+    delete(key) { this._pairs = this._pairs.filter(([k]) => k !== String(key)); }
+    sort() { this._pairs.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)); }
+    forEach(callback) { this._pairs.forEach(([key, value]) => callback(value, key, this)); }
+    entries() { return this._pairs.map(([key, value]) => [key, value])[Symbol.iterator](); }
+    keys() { return this._pairs.map(([key]) => key)[Symbol.iterator](); }
+    values() { return this._pairs.map(([, value]) => value)[Symbol.iterator](); }
+    [Symbol.iterator]() { return this.entries(); }
+    get size() { return this._pairs.length; }
+    toString() { return this._pairs.map(([key, value]) => encode(key) + "=" + encode(value)).join("&"); }
+  }
+
+  class URL {
+    constructor(url, base) {
+      this._apply(URL._parse(String(url), base === undefined ? undefined : String(base)));
+    }
+    static _parse(url, base) {
+      const parsed = JSON.parse(call("parseUrl", { url, base }));
+      if (parsed.error) throw new TypeError(parsed.error);
+      return parsed;
+    }
+    static canParse(url, base) {
+      try { URL._parse(String(url), base === undefined ? undefined : String(base)); return true; } catch { return false; }
+    }
+    _apply(parts) {
+      this.protocol = parts.protocol;
+      this.username = parts.username;
+      this.password = parts.password;
+      this.hostname = parts.hostname;
+      this.port = parts.port;
+      this.pathname = parts.pathname;
+      this.hash = parts.hash;
+      this.searchParams = new URLSearchParams(parts.search);
+    }
+    get host() { return this.port ? this.hostname + ":" + this.port : this.hostname; }
+    get origin() { return this.protocol + "//" + this.host; }
+    get search() { const query = this.searchParams.toString(); return query ? "?" + query : ""; }
+    set search(value) { this.searchParams = new URLSearchParams(String(value)); }
+    get href() {
+      const auth = this.username ? this.username + (this.password ? ":" + this.password : "") + "@" : "";
+      return this.protocol + "//" + auth + this.host + this.pathname + this.search + this.hash;
+    }
+    set href(value) { this._apply(URL._parse(String(value))); }
+    toString() { return this.href; }
+    toJSON() { return this.href; }
+  }
+
+  class Response {
+    constructor(body, init = {}) {
+      this._body = body === undefined || body === null ? "" : String(body);
+      this.status = init.status === undefined ? 200 : init.status;
+      this.statusText = init.statusText || "";
+      this.headers = new Headers(init.headers);
+      this.ok = this.status >= 200 && this.status < 300;
+      this.url = init.url || "";
+      this.bodyUsed = false;
+    }
+    async text() { this.bodyUsed = true; return this._body; }
+    async json() { this.bodyUsed = true; return JSON.parse(this._body); }
+    clone() { return new Response(this._body, { status: this.status, statusText: this.statusText, headers: this.headers, url: this.url }); }
+  }
+
+  class Request {
+    constructor(input, init = {}) {
+      this.url = input instanceof Request ? input.url : String(input);
+      this.method = (init.method || (input instanceof Request ? input.method : "GET")).toUpperCase();
+      this.headers = new Headers(init.headers || (input instanceof Request ? input.headers : undefined));
+      this.body = init.body !== undefined ? init.body : input instanceof Request ? input.body : undefined;
+    }
+  }
+
+  const fetch = async (resource, init = {}) => {
+    const request = resource instanceof Request ? resource : null;
+    const url = request ? request.url : String(resource);
+    const headers = {};
+    new Headers(init.headers || (request ? request.headers : undefined)).forEach((value, key) => { headers[key] = value; });
+
+    let body = init.body !== undefined ? init.body : request ? request.body : undefined;
+    if (body instanceof URLSearchParams) {
+      if (!headers["content-type"]) headers["content-type"] = "application/x-www-form-urlencoded;charset=UTF-8";
+      body = body.toString();
+    } else if (body !== undefined && body !== null && typeof body !== "string") {
+      body = String(body);
+    }
+
+    const result = JSON.parse(await callAsync("fetch", {
+      url,
+      init: { method: init.method || (request ? request.method : "GET"), headers, body: body === undefined ? null : body },
+    }));
+    if (result.error) throw new TypeError("fetch failed: " + result.error);
+    return new Response(result.body, result);
+  };
+
+  let nextTimer = 0;
+  const cancelledTimers = new Set();
+  const setTimeout = (callback, ms = 0, ...args) => {
+    const timerId = ++nextTimer;
+    callAsync("sleep", { ms: Number(ms) || 0 }).then(() => {
+      if (!cancelledTimers.delete(timerId)) callback(...args);
+    });
+    return timerId;
+  };
+  const clearTimeout = (timerId) => { cancelledTimers.add(timerId); };
+
+  const btoa = (value) => call("btoa", String(value));
+  const atob = (value) => call("atob", String(value));
+
+  const finish = (result) => { call("result", result); };
+  const fail = (error) => { call("error", stringify(error && error.message ? error.message : error)); };
+
+  // Resolves pending async bridge calls; invoked by the worker with primitives only
+  const settle = (id, payload) => {
+    const resolve = pendingCalls.get(id);
+    if (!resolve) return;
+    pendingCalls.delete(id);
+    resolve(payload);
+  };
+
+  const runWrapper = (wrapper) => {
+    (async () => {
+      if (typeof wrapper !== "function") throw new Error("Wrapper function not found in wrapper code");
+      const response = await wrapper(input.payload, input.options);
+      if (!response || typeof response.text !== "function") throw new Error("Wrapper must return a fetch Response");
+      const headers = {};
+      response.headers.forEach((value, key) => { headers[key] = value; });
+      finish({ status: response.status, statusText: response.statusText, headers, body: await response.text(), url: response.url });
+    })().catch(fail);
+  };
+
+  const runTransform = (transform) => {
+    (async () => {
+      if (typeof transform !== "function") throw new Error("transform_code must be a function expression");
+      const output = await transform(input.data);
+      finish({ output: output === undefined ? null : output });
+    })().catch(fail);
+  };
+
+  // Static header value_code: each expression is collected, called if it is a function, then reported together
+  const headerResults = {};
+  const headerTasks = [];
+  const collectHeader = (name, value) => {
+    headerTasks.push((async () => {
+      const resolved = typeof value === "function" ? await value() : value;
+      headerResults[name] = { value: String(resolved) };
+    })().catch((error) => {
+      headerResults[name] = { error: stringify(error && error.message ? error.message : error) };
+    }));
+  };
+  const failHeader = (name, message) => { headerResults[name] = { error: String(message) }; };
+  const finishHeaders = () => { Promise.all(headerTasks).then(() => finish({ headers: headerResults })); };
+
+  const globals = {
+    console, fetch, Headers, Request, Response, URL, URLSearchParams,
+    setTimeout, clearTimeout, btoa, atob,
+    process: { env: input.env || {} },
+    __unbrowseRunWrapper: runWrapper,
+    __unbrowseRunTransform: runTransform,
+    __unbrowseSettle: settle,
+    __unbrowseCollectHeader: collectHeader,
+    __unbrowseFailHeader: failHeader,
+    __unbrowseFinishHeaders: finishHeaders,
+  };
+  for (const name of Object.keys(globals)) {
+    Object.defineProperty(globalThis, name, { value: globals[name], writable: name === "process", configurable: false, enumerable: false });
+  }
+})();
+`;
+
+// Runs in the worker thread. Never hands worker-realm objects to the context.
+const WORKER_SOURCE = `
+"use strict";
+const { parentPort, workerData } = require("worker_threads");
+const vm = require("vm");
+
+// Nothing below needs to load modules, so remove the ways back to them
+for (const name of ["require", "module", "exports", "__filename", "__dirname"]) {
+  try { delete globalThis[name]; } catch {}
+}
+for (const name of ["getBuiltinModule", "binding", "_linkedBinding", "dlopen"]) {
+  try { delete process[name]; } catch {}
+}
+
+const job = workerData.job;
+let nextCallId = 0;
+let context;
+
+const settle = (id, payload) => {
+  const fn = context.__unbrowseSettle;
+  fn(id, payload);
+};
+
+// Only strings and numbers cross back into the context: a worker-realm error would
+// hand wrapper code the worker's Function constructor, so every failure becomes "".
+const bridge = (op, arg) => {
+  try {
+    return handleBridgeCall(op, arg);
+  } catch {
+    return "";
+  }
+};
+
+const handleBridgeCall = (op, arg) => {
+  if (typeof op !== "string" || typeof arg !== "string") return "";
+  const value = JSON.parse(arg);
+  switch (op) {
+    case "log":
+      parentPort.postMessage({ type: "log", level: String(value.level), message: String(value.message) });
+      return "";
+    case "parseUrl":
+      try {
+        const url = value.base === undefined || value.base === null ? new URL(value.url) : new URL(value.url, value.base);
+        return JSON.stringify({
+          protocol: url.protocol, username: url.username, password: url.password, hostname: url.hostname,
+          port: url.port, pathname: url.pathname, search: url.search, hash: url.hash,
+        });
+      } catch (error) {
+        return JSON.stringify({ error: String(error.message) });
+      }
+    case "btoa":
+      return Buffer.from(String(value), "latin1").toString("base64");
+    case "atob":
+      return Buffer.from(String(value), "base64").toString("latin1");
+    case "fetch": {
+      const id = ++nextCallId;
+      parentPort.postMessage({ type: "fetch", id, url: String(value.url), init: value.init });
+      return id;
+    }
+    case "sleep": {
+      const id = ++nextCallId;
+      setTimeout(() => settle(id, ""), Math.max(0, Math.min(Number(value.ms) || 0, 2147483647)));
+      return id;
+    }
+    case "result":
+      parentPort.postMessage({ type: "result", json: JSON.stringify(value) });
+      return "";
+    case "error":
+      parentPort.postMessage({ type: "error", message: String(value) });
+      return "";
+    default:
+      return "";
+  }
+};
+
+parentPort.on("message", (message) => {
+  if (message && message.type === "fetchResult") {
+    settle(message.id, message.json);
+  }
+});
+
+try {
+  const sandbox = Object.create(null);
+  sandbox.__bridge = bridge;
+  sandbox.__input = JSON.stringify(job.mode === "wrapper"
+    ? { payload: job.payload, options: job.options, env: job.env }
+    : job.mode === "headers" ? { env: job.env } : { data: job.data });
+  context = vm.createContext(sandbox, { codeGeneration: { strings: false, wasm: false } });
+  new vm.Script(workerData.bootstrap).runInContext(context);
+
+  if (job.mode === "headers") {
+    // One script per header so a broken expression only loses that header
+    for (const name of Object.keys(job.headers)) {
+      try {
+        new vm.Script("__unbrowseCollectHeader(" + JSON.stringify(name) + ", (" + job.headers[name] + "\\n));", { filename: "static-header.js" })
+          .runInContext(context, { timeout: workerData.timeoutMs });
+      } catch (error) {
+        const failHeader = context.__unbrowseFailHeader;
+        failHeader(name, String(error && error.message ? error.message : error));
+      }
+    }
+    new vm.Script("__unbrowseFinishHeaders();").runInContext(context, { timeout: workerData.timeoutMs });
+  } else {
+    const source = job.mode === "wrapper"
+      ? "(function() {\\n" + job.code + "\\n;__unbrowseRunWrapper(typeof wrapper === 'function' ? wrapper : undefined);\\n})();"
+      : "__unbrowseRunTransform((" + job.code + "\\n));";
+    new vm.Script(source, { filename: "wrapper.js" }).runInContext(context, { timeout: workerData.timeoutMs });
+  }
+} catch (error) {
+  parentPort.postMessage({ type: "error", message: String(error && error.message ? error.message : error) });
+}
+`;
+
+/**
+ * Runs a job in a fresh worker and resolves with the JSON the sandbox reported
+ */
+function runSandboxJob(
+  job: SandboxJob,
+  limits: Partial<SandboxLimits>,
+  fetchImpl?: SandboxFetch,
+): Promise<any> {
+  const { timeoutMs, memoryLimitMb } = { ...DEFAULT_SANDBOX_LIMITS, ...limits };
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      env: {},
+      workerData: { job, bootstrap: CONTEXT_BOOTSTRAP, timeoutMs },
+      resourceLimits: {
+        maxOldGenerationSizeMb: memoryLimitMb,
+        maxYoungGenerationSizeMb: Math.max(4, Math.floor(memoryLimitMb / 4)),
+        codeRangeSizeMb: 16,
+        stackSizeMb: 4,
+      },
+      stdout: true,
+      stderr: true,
+    });
+
+    let settled = false;
+    const finish = (error: Error | null, value?: any) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate().catch(() => {});
+      if (error) reject(error);
+      else resolve(value);
+    };
+
+    const timer = setTimeout(() => {
+      finish(new Error(`Wrapper execution timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    worker.on("message", async (message: any) => {
+      switch (message?.type) {
+        case "log":
+          console.error(`[WRAPPER] ${message.message}`);
+          break;
+        case "fetch": {
+          let reply: any;
+          try {
+            if (!fetchImpl) {
+              throw new Error("Network access is not available in this sandbox");
+            }
+            const response = await fetchImpl(message.url, {
+              method: message.init?.method,
+              headers: message.init?.headers,
+              body: message.init?.body ?? undefined,
+            });
+            const headers: Record<string, string> = {};
+            response.headers.forEach((value, key) => {
+              headers[key] = value;
+            });
+            reply = {
+              status: response.status,
+              statusText: response.statusText,
+              headers,
+              body: await response.text(),
+              url: response.url || message.url,
+            };
+          } catch (error: any) {
+            reply = { error: error.message || String(error) };
+          }
+          if (!settled) {
+            worker.postMessage({ type: "fetchResult", id: message.id, json: JSON.stringify(reply) });
+          }
+          break;
+        }
+        case "result":
+          finish(null, JSON.parse(message.json));
+          break;
+        case "error":
+          finish(new Error(message.message));
+          break;
+      }
+    });
+
+    worker.on("error", (error: any) => {
+      if (error?.code === "ERR_WORKER_OUT_OF_MEMORY") {
+        finish(new Error(`Wrapper exceeded the ${memoryLimitMb}MB memory limit`));
+      } else {
+        finish(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    worker.on("exit", (code) => {
+      finish(new Error(`Wrapper sandbox exited unexpectedly (code ${code})`));
+    });
+  });
+}
+
+/**
+ * Executes wrapper code in the sandbox
+ *
+ * @param wrapperCode - Wrapper source defining a `wrapper(payload, options)` function (exports already stripped)
+ * @param payload - Parameters passed to the wrapper
+ * @param options - Options passed to the wrapper
+ * @param fetchImpl - Performs the wrapper's requests on the main thread
+ * @param env - process.env visible to the wrapper (see buildSandboxEnv)
+ * @param limits - Timeout and memory limits
+ */
+export async function runWrapperInSandbox(
+  wrapperCode: string,
+  payload: Record<string, any>,
+  options: Record<string, any>,
+  fetchImpl: SandboxFetch,
+  env: Record<string, string> = {},
+  limits: Partial<SandboxLimits> = {},
+): Promise<SandboxResponse> {
+  return runSandboxJob({ mode: "wrapper", code: wrapperCode, payload, options, env }, limits, fetchImpl);
+}
+
+/**
+ * Applies transform code to data in the sandbox (no network, no env)
+ */
+export async function runTransformInSandbox(
+  transformCode: string,
+  data: any,
+  limits: Partial<SandboxLimits> = {},
+): Promise<any> {
+  const result = await runSandboxJob({ mode: "transform", code: transformCode, data }, limits);
+  return result.output;
+}
+
+/**
+ * Evaluates legacy static header value_code expressions in the sandbox.
+ * Each expression may be a value or a (possibly async) function returning one.
+ *
+ * @param headerCode - Header name to value_code
+ * @param env - process.env visible to the expressions (see buildSandboxEnv)
+ */
+export async function runHeaderCodeInSandbox(
+  headerCode: Record<string, string>,
+  env: Record<string, string> = {},
+  limits: Partial<SandboxLimits> = {},
+): Promise<Record<string, { value?: string; error?: string }>> {
+  const result = await runSandboxJob({ mode: "headers", headers: headerCode, env }, limits);
+  return result.headers;
+}
@@ -8,7 +8,7 @@
  * 1. Client makes request to x402 endpoint
  * 2. Server responds with 402 + payment requirements (amount, wallet info)
  * 3. Client constructs verify_payment + settle_payment smart contract instructions
- * 4. Client signs transaction with private key
+ * 4. Client has the transaction signed by its PaymentSigner (see payment-signer.ts)
  * 5. Client retries request with X-Payment header containing base64 transaction
  * 6. Server verifies and submits transaction, then processes request
  *
@@ -20,7 +20,6 @@
 
 import {
   Connection,
-  Keypair,
   PublicKey,
   Transaction,
   TransactionInstruction,
@@ -34,7 +33,8 @@ import {
   getAccount,
   createAssociatedTokenAccountInstruction,
 } from "@solana/spl-token";
-import bs58 from "bs58";
+import { getNonceManager } from "./payment-nonce.js";
+import type { PaymentSigner } from "./payment-signer.js";
 
 // ============================================================================
 // CONSTANTS
@@ -46,6 +46,24 @@ const X402_PROGRAM_ID = new PublicKey('5g8XvMcpWEgHitW7abiYTr1u8sDasePLQnrebQyCL
 // Fixed wallet (2%) - hardcoded in smart contract, cannot be changed
 const WALLET_1_FIXED = new PublicKey('8XLmbY1XRiPzeVNRDe9FZWHeCYKZAzvgc1c4EhyKsvEy');
 
+// Published platform wallets that may always be paid. Any other recipient must be
+// configured explicitly (UNBROWSE_X402_ALLOWED_RECIPIENTS / x402AllowedRecipients).
+export const PLATFORM_WALLETS: readonly string[] = [WALLET_1_FIXED.toBase58()];
+
+// Known USDC mints per chain
+export const USDC_MINTS = {
+  devnet: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+  'mainnet-beta': 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+} as const;
+
+// Expected price per operation in USDC lamports (0.1 cents per search, 0.5 cents per execution)
+export const X402_PRICES = {
+  search: 1000n,
+  execute: 5000n,
+} as const;
+
+export type X402Operation = keyof typeof X402_PRICES;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -74,7 +92,7 @@ export interface PaymentSplit {
 }
 
 export interface X402Config {
-  privateKey: string; // Base58 encoded Solana private key
+  signer: PaymentSigner; // Signs payment transactions; the client never sees the private key
   rpcUrl?: string; // Solana RPC URL (defaults based on chain from 402 response)
 }
 
@@ -85,6 +103,87 @@ export interface X402PaymentResult {
   error?: string;
 }
 
+/**
+ * Rules a 402 payment requirement must satisfy before it is signed
+ */
+export interface PaymentPolicy {
+  allowedRecipients?: string[]; // Base58 wallets that may be paid besides PLATFORM_WALLETS
+  allowMainnet?: boolean; // Mainnet payments require explicit opt-in
+}
+
+/**
+ * Thrown when a 402 payment requirement violates the payment policy. Nothing has been signed.
+ */
+export class PaymentPolicyError extends Error {
+  readonly code = "PAYMENT_REQUIREMENT_REJECTED";
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    super(`Payment requirement rejected: ${violations.join("; ")}`);
+    this.name = "PaymentPolicyError";
+    this.violations = violations;
+  }
+}
+
+// ============================================================================
+// PAYMENT POLICY
+// ============================================================================
+
+/**
+ * Checks a payment requirement against the policy: price for the operation,
+ * USDC mint for the chain, recipient allowlist (PLATFORM_WALLETS plus the
+ * configured recipients) and mainnet opt-in.
+ * Throws PaymentPolicyError listing every violation.
+ */
+export function validatePaymentRequirement(
+  requirement: PaymentRequirement,
+  operation: X402Operation,
+  policy: PaymentPolicy = {},
+): void {
+  const violations: string[] = [];
+
+  if (requirement.chain !== "devnet" && requirement.chain !== "mainnet-beta") {
+    violations.push(`unknown chain '${requirement.chain}'`);
+  } else {
+    if (requirement.chain === "mainnet-beta" && !policy.allowMainnet) {
+      violations.push("mainnet payments are not enabled (set UNBROWSE_X402_ALLOW_MAINNET=true)");
+    }
+    if (requirement.mint !== USDC_MINTS[requirement.chain]) {
+      violations.push(`mint ${requirement.mint} is not the USDC mint for ${requirement.chain}`);
+    }
+  }
+
+  const expected = X402_PRICES[operation];
+  if (!/^\d+$/.test(String(requirement.amount)) || BigInt(requirement.amount) !== expected) {
+    violations.push(`amount ${requirement.amount} does not match the ${operation} price of ${expected}`);
+  }
+
+  const recipients = [
+    requirement.recipient,
+    requirement.wallet2,
+    requirement.wallet3,
+    requirement.wallet4,
+    ...(requirement.splits || []).map((split) => split.recipient),
+  ].filter((recipient): recipient is string => recipient !== undefined);
+  const allowed = new Set([...PLATFORM_WALLETS, ...(policy.allowedRecipients || [])]);
+
+  for (const recipient of new Set(recipients)) {
+    try {
+      new PublicKey(recipient);
+    } catch {
+      violations.push(`recipient ${recipient} is not a valid Solana address`);
+      continue;
+    }
+    if (!allowed.has(recipient)) {
+      violations.push(`recipient ${recipient} is not on the allowlist (add it to UNBROWSE_X402_ALLOWED_RECIPIENTS to pay it)`);
+    }
+  }
+
+  if (violations.length > 0) {
+    throw new PaymentPolicyError(violations);
+  }
+}
+
 // ============================================================================
 // SMART CONTRACT HELPERS
 // ============================================================================
@@ -186,23 +285,15 @@ function createSettlePaymentInstruction(
 // ============================================================================
 
 export class X402SolanaClient {
-  private readonly keypair: Keypair;
+  private readonly signer: PaymentSigner;
   private connection: Connection | null = null;
   private rpcUrl: string | null = null;
 
   constructor(config: X402Config) {
-    // Decode base58 private key
-    try {
-      const secretKey = bs58.decode(config.privateKey);
-      this.keypair = Keypair.fromSecretKey(secretKey);
-      console.error(
-        `[x402] Wallet initialized: ${this.keypair.publicKey.toBase58()}`
-      );
-    } catch (error) {
-      throw new Error(
-        `Invalid Solana private key: ${error instanceof Error ? error.message : "Unknown error"}`
-      );
-    }
+    this.signer = config.signer;
+    console.error(
+      `[x402] Wallet initialized: ${this.signer.publicKey.toBase58()} (signer: ${this.signer.kind})`
+    );
 
     if (config.rpcUrl) {
       this.rpcUrl = config.rpcUrl;
@@ -214,7 +305,7 @@ export class X402SolanaClient {
    * Get the wallet public key
    */
   getPublicKey(): string {
-    return this.keypair.publicKey.toBase58();
+    return this.signer.publicKey.toBase58();
   }
 
   /**
@@ -241,11 +332,14 @@ export class X402SolanaClient {
   ): Promise<Transaction> {
     const connection = this.getConnection(requirement.chain);
     const mint = new PublicKey(requirement.mint);
-    const payer = this.keypair.publicKey;
+    const payer = this.signer.publicKey;
     const amount = BigInt(requirement.amount);
 
-    // Generate unique nonce for this payment
-    const nonce = BigInt(Date.now());
+    // Unique nonce for this payment, skipping nonces whose payment record already exists
+    const nonce = await getNonceManager(payer.toBase58()).allocate(async (candidate) => {
+      const [pda] = findPaymentRecordPDA(payer, candidate);
+      return (await connection.getAccountInfo(pda, "confirmed")) !== null;
+    });
 
     // Get payer's token account
     const payerAta = await getAssociatedTokenAddress(mint, payer);
@@ -344,10 +438,8 @@ export class X402SolanaClient {
     tx.lastValidBlockHeight = lastValidBlockHeight;
     tx.feePayer = payer;
 
-    // Sign transaction
-    tx.sign(this.keypair);
-
-    return tx;
+    // Only the signer touches the key
+    return this.signer.signTransaction(tx);
   }
 
   /**
@@ -417,7 +509,7 @@ export class X402SolanaClient {
       const mintPubkey = new PublicKey(mint);
       const ata = await getAssociatedTokenAddress(
         mintPubkey,
-        this.keypair.publicKey
+        this.signer.publicKey
       );
 
       const account = await getAccount(connection, ata);
@@ -426,6 +518,25 @@ export class X402SolanaClient {
       return 0n;
     }
   }
+
+  /**
+   * Check SOL balance (lamports), which pays transaction fees and token account rent
+   * @returns null if the RPC could not be reached
+   */
+  async getSolBalance(chain: "devnet" | "mainnet-beta"): Promise<bigint | null> {
+    try {
+      return BigInt(await this.getConnection(chain).getBalance(this.signer.publicKey));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Kind of signer holding the wallet key
+   */
+  getSignerKind(): PaymentSigner["kind"] {
+    return this.signer.kind;
+  }
 }
 
 /**
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { applyEnvConfig, ConfigError } from "../src/config-loader.js";
+import createServer, { configSchema } from "../src/index.js";
+
+// What Smithery passes when nothing is configured in smithery.yaml
+const smitheryConfig = (settings: Record<string, unknown> = {}) => configSchema.parse(settings);
+
+describe("applyEnvConfig", () => {
+  it("takes settings the config leaves unset or at their defaults from environment variables", () => {
+    const config = applyEnvConfig(smitheryConfig(), {
+      UNBROWSE_API_KEY: "re_from_env",
+      UNBROWSE_PASSWORD: "env-password",
+      UNBROWSE_EXECUTION_MODE: "local",
+      UNBROWSE_X402_FALLBACK: "false",
+      UNBROWSE_X402_ALLOWED_RECIPIENTS: "wallet-1, wallet-2",
+      UNBROWSE_WRAPPER_TIMEOUT_MS: "5000",
+    });
+
+    expect(config).toMatchObject({
+      apiKey: "re_from_env",
+      password: "env-password",
+      executionMode: "local",
+      x402Fallback: false,
+      x402AllowedRecipients: ["wallet-1", "wallet-2"],
+      wrapperTimeoutMs: 5000,
+    });
+  });
+
+  it("keeps settings the config gives explicitly", () => {
+    const config = applyEnvConfig(smitheryConfig({ apiKey: "re_from_config", wrapperTimeoutMs: 10000 }), {
+      UNBROWSE_API_KEY: "re_from_env",
+      UNBROWSE_WRAPPER_TIMEOUT_MS: "5000",
+    });
+
+    expect(config).toMatchObject({ apiKey: "re_from_config", wrapperTimeoutMs: 10000 });
+  });
+
+  it("rejects invalid environment values", () => {
+    expect(() => applyEnvConfig(smitheryConfig(), { UNBROWSE_EXECUTION_MODE: "elsewhere" })).toThrow(ConfigError);
+  });
+});
+
+describe("createServer without loadConfig", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("authenticates with credentials from environment variables only", () => {
+    expect(() =>
+      createServer({
+        config: smitheryConfig(),
+        env: { UNBROWSE_API_KEY: "re_from_env", UNBROWSE_API_BASE_URL: "http://127.0.0.1:9", UNBROWSE_REGISTER_FAVORITES: "false" },
+      }),
+    ).not.toThrow();
+  });
+
+  it("ignores the environment when given an empty one", () => {
+    expect(() => createServer({ config: smitheryConfig(), env: {} })).toThrow(/Authentication required/);
+  });
+});
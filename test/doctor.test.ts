@@ -0,0 +1,106 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { join } from "path";
+import { tmpdir } from "os";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { encryptCredentialValue } from "../src/crypto-utils.js";
+import { runDoctorChecks } from "../src/doctor.js";
+
+const VALID_KEY = "re_valid";
+const PASSWORD = "correct-password";
+
+/**
+ * In-process Unbrowse API that accepts only VALID_KEY and stores one credential
+ * encrypted with PASSWORD
+ */
+function startMockApi(): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://api.test").pathname;
+    res.setHeader("content-type", "application/json");
+
+    if (path === "/public/abilities") {
+      return res.end(JSON.stringify({ success: true, count: 0, abilities: [] }));
+    }
+    if (req.headers.authorization !== `Bearer ${VALID_KEY}`) {
+      res.statusCode = 401;
+      return res.end(JSON.stringify({ success: false, error: "Unauthorized" }));
+    }
+    if (path === "/my/abilities") {
+      return res.end(JSON.stringify({ success: true, count: 2, abilities: [] }));
+    }
+    if (path === "/my/credentials") {
+      return res.end(JSON.stringify({
+        success: true,
+        count: 1,
+        credentials: {
+          "api.example.com": [{
+            credentialKey: "api.example.com::Authorization",
+            encryptedValue: encryptCredentialValue("Bearer stored-token", PASSWORD),
+          }],
+        },
+      }));
+    }
+    res.statusCode = 404;
+    res.end("{}");
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("runDoctorChecks", () => {
+  let mockApi: Server;
+  let baseEnv: NodeJS.ProcessEnv;
+
+  const runChecks = async (env: NodeJS.ProcessEnv) => {
+    const checks = await runDoctorChecks([], { ...baseEnv, ...env });
+    return Object.fromEntries(checks.map((check) => [check.name, check]));
+  };
+
+  beforeAll(async () => {
+    mockApi = await startMockApi();
+    baseEnv = {
+      // No config file, so only the variables below apply
+      XDG_CONFIG_HOME: join(tmpdir(), "unbrowse-doctor-test-missing"),
+      UNBROWSE_API_BASE_URL: `http://127.0.0.1:${(mockApi.address() as AddressInfo).port}`,
+    };
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    return () => vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mockApi?.close(resolve));
+  });
+
+  it("accepts a valid API key and the password the credentials were stored with", async () => {
+    const checks = await runChecks({ UNBROWSE_API_KEY: VALID_KEY, UNBROWSE_PASSWORD: PASSWORD });
+
+    expect(checks["Auth mode"]).toMatchObject({ status: "ok", detail: expect.stringMatching(/^api_key/) });
+    expect(checks["API"].status).toBe("ok");
+    expect(checks["API auth"]).toMatchObject({ status: "ok", detail: expect.stringContaining("2 favorited abilities") });
+    expect(checks["Password"]).toMatchObject({ status: "ok", detail: "Decrypts stored credential api.example.com::Authorization" });
+  });
+
+  it("fails the password check when the password does not decrypt the stored credentials", async () => {
+    const checks = await runChecks({ UNBROWSE_API_KEY: VALID_KEY, UNBROWSE_PASSWORD: "wrong-password" });
+
+    expect(checks["API auth"].status).toBe("ok");
+    expect(checks["Password"]).toMatchObject({ status: "fail", detail: expect.stringContaining("Does not decrypt") });
+  });
+
+  it("fails API auth for a rejected key and skips the password check", async () => {
+    const checks = await runChecks({ UNBROWSE_API_KEY: "re_revoked", UNBROWSE_PASSWORD: PASSWORD });
+
+    expect(checks["Auth mode"].status).toBe("ok");
+    expect(checks["API auth"]).toMatchObject({ status: "fail", detail: expect.stringContaining("401") });
+    expect(checks["Password"].status).toBe("skip");
+  });
+
+  it("fails the auth mode check without credentials", async () => {
+    const checks = await runChecks({});
+
+    expect(checks["Auth mode"].status).toBe("fail");
+    expect(checks["API auth"].status).toBe("skip");
+  });
+});
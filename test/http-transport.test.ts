@@ -0,0 +1,211 @@
+import { createServer as createHttpServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { encryptCredentialValue } from "../src/crypto-utils.js";
+import { startHttpServer } from "../src/http-transport.js";
+import { configSchema } from "../src/index.js";
+
+const SERVER_PASSWORD = "server-password";
+
+// Each tenant's stored credential; tenant B's is encrypted with the server's password
+const TENANTS = {
+  re_tenantA: { credentialKey: "tenant-a-key", secret: "tenant-a-secret", encryptionKey: "tenant-a-key" },
+  re_tenantB: { credentialKey: undefined, secret: "tenant-b-secret", encryptionKey: SERVER_PASSWORD },
+} as const;
+type TenantToken = keyof typeof TENANTS;
+
+interface ApiRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  credentialKey?: string;
+}
+
+/**
+ * In-process Unbrowse API that answers as whichever tenant the bearer token names
+ */
+function startMockApi(requests: ApiRequest[]): Promise<Server> {
+  const server = createHttpServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      const path = new URL(req.url || "/", "http://api.test").pathname;
+      const authorization = req.headers.authorization;
+      requests.push({ method: req.method || "", path, authorization, credentialKey: req.headers["x-credential-key"] as string | undefined });
+
+      const tenant = TENANTS[authorization?.replace(/^Bearer /, "") as TenantToken];
+      res.setHeader("content-type", "application/json");
+      if (!tenant) {
+        res.statusCode = 401;
+        return res.end(JSON.stringify({ success: false, error: "Unauthorized" }));
+      }
+
+      if (path === "/my/credentials") {
+        return res.end(JSON.stringify({
+          success: true,
+          count: 1,
+          credentials: {
+            "api.example.com": [{
+              credentialKey: "api.example.com::Authorization",
+              encryptedValue: encryptCredentialValue(tenant.secret, tenant.encryptionKey),
+            }],
+          },
+        }));
+      }
+      if (path === "/abilities/ability-1") {
+        return res.end(JSON.stringify({
+          success: true,
+          ability: { abilityId: "ability-1", abilityName: "Example", serviceName: "example", domain: "api.example.com", dynamicHeaderKeys: [] },
+          wrapper: null,
+        }));
+      }
+      if (path === "/my/abilities/ability-1/execute") {
+        return res.end(JSON.stringify({
+          success: true,
+          result: { statusCode: 200, abilityName: "Example", domain: "api.example.com", body: { caller: authorization }, executedAt: "" },
+        }));
+      }
+      res.statusCode = 404;
+      res.end("{}");
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+/**
+ * A port nothing listens on right now
+ */
+function getFreePort(): Promise<number> {
+  const probe = createHttpServer();
+  return new Promise((resolve) => probe.listen(0, "127.0.0.1", () => {
+    const { port } = probe.address() as AddressInfo;
+    probe.close(() => resolve(port));
+  }));
+}
+
+const parseToolResult = (result: any) => JSON.parse(result.content[0].text);
+
+describe("multi-tenant HTTP transport", () => {
+  const requests: ApiRequest[] = [];
+  let mockApi: Server;
+  let mcpUrl: URL;
+  let close: () => Promise<void>;
+  const clients: Partial<Record<TenantToken, { client: Client; transport: StreamableHTTPClientTransport }>> = {};
+
+  const connect = async (token: TenantToken) => {
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+    const { credentialKey } = TENANTS[token];
+    if (credentialKey) headers["X-Credential-Key"] = credentialKey;
+
+    const transport = new StreamableHTTPClientTransport(mcpUrl, { requestInit: { headers } });
+    const client = new Client({ name: "test", version: "1.0.0" });
+    await client.connect(transport);
+    clients[token] = { client, transport };
+    return client;
+  };
+
+  const callTool = async (token: TenantToken, name: string, args: Record<string, unknown> = {}) =>
+    parseToolResult(await clients[token]!.client.callTool({ name, arguments: args }));
+
+  // Sends a tools/list request on a session, with an arbitrary bearer token
+  const postToSession = (sessionId: string, token?: string) =>
+    fetch(mcpUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": sessionId,
+        "Mcp-Protocol-Version": "2025-06-18",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 99, method: "tools/list" }),
+    });
+
+  beforeAll(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    mockApi = await startMockApi(requests);
+    const port = await getFreePort();
+    mcpUrl = new URL(`http://127.0.0.1:${port}/mcp`);
+
+    close = await startHttpServer({
+      port,
+      host: "127.0.0.1",
+      corsOrigins: [],
+      multiTenant: true,
+      // The server's own settings that tenants must not inherit
+      config: configSchema.parse({
+        apiKey: "re_server",
+        password: SERVER_PASSWORD,
+        apiBaseUrl: `http://127.0.0.1:${(mockApi.address() as AddressInfo).port}`,
+        executionMode: "local",
+        proxyUrl: "http://127.0.0.1:9",
+      }),
+    });
+
+    await connect("re_tenantA");
+    await connect("re_tenantB");
+  });
+
+  afterAll(async () => {
+    await Promise.all(Object.values(clients).map(({ client }) => client.close()));
+    await close?.();
+    await new Promise((resolve) => mockApi?.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it("executes remotely with each tenant's own key and X-Credential-Key", async () => {
+    const resultA = await callTool("re_tenantA", "execute_ability", { ability_id: "ability-1", params: "{}" });
+    const resultB = await callTool("re_tenantB", "execute_ability", { ability_id: "ability-1", params: "{}" });
+
+    expect(resultA).toMatchObject({ success: true, responseBody: { caller: "Bearer re_tenantA" } });
+    expect(resultB).toMatchObject({ success: true, responseBody: { caller: "Bearer re_tenantB" } });
+
+    const executions = requests.filter((request) => request.path === "/my/abilities/ability-1/execute");
+    expect(executions).toEqual([
+      { method: "POST", path: "/my/abilities/ability-1/execute", authorization: "Bearer re_tenantA", credentialKey: "tenant-a-key" },
+      { method: "POST", path: "/my/abilities/ability-1/execute", authorization: "Bearer re_tenantB", credentialKey: undefined },
+    ]);
+    expect(requests.some((request) => request.authorization === "Bearer re_server")).toBe(false);
+  });
+
+  it("keeps each session's ability cache separate", async () => {
+    // Both tenants looked the ability up themselves; neither was served from the other's cache
+    const lookups = requests.filter((request) => request.path === "/abilities/ability-1");
+    expect(lookups.map((request) => request.authorization)).toEqual(["Bearer re_tenantA", "Bearer re_tenantB"]);
+
+    await callTool("re_tenantA", "execute_ability", { ability_id: "ability-1", params: "{}" });
+    expect(requests.filter((request) => request.path === "/abilities/ability-1")).toHaveLength(2);
+  });
+
+  it("decrypts credentials only with the tenant's own X-Credential-Key", async () => {
+    const credentialsA = await callTool("re_tenantA", "list_credentials");
+    const credentialsB = await callTool("re_tenantB", "list_credentials");
+
+    expect(credentialsA).toMatchObject({ success: true, passwordConfigured: true });
+    expect(credentialsA.credentials["api.example.com"][0]).toMatchObject({ decryptable: true, maskedValue: "tena****" });
+
+    // Tenant B sent no key, so the server's password must not decrypt its credential
+    expect(credentialsB).toMatchObject({ success: true, passwordConfigured: false });
+    expect(credentialsB.credentials["api.example.com"][0]).toMatchObject({ encrypted: true, maskedValue: "[encrypted]" });
+    expect(credentialsB.credentials["api.example.com"][0]).not.toHaveProperty("decryptable");
+  });
+
+  it("rejects a session used with another tenant's key or without a key", async () => {
+    const sessionA = clients.re_tenantA!.transport.sessionId!;
+
+    const hijacked = await postToSession(sessionA, "re_tenantB");
+    expect(hijacked.status).toBe(403);
+
+    const anonymous = await postToSession(sessionA);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get("www-authenticate")).toContain("Bearer");
+
+    // The owner can still use the session
+    const owner = await postToSession(sessionA, "re_tenantA");
+    expect(owner.status).toBe(200);
+    await owner.arrayBuffer();
+  });
+});
@@ -0,0 +1,56 @@
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PaymentRecord } from "../src/api-client.js";
+import { PaymentLedger } from "../src/payment-ledger.js";
+
+const record = (index: number): PaymentRecord => ({
+  id: `payment-${index}`,
+  timestamp: 1_700_000_000_000 + index,
+  wallet: index % 2 === 0 ? "wallet-a" : "wallet-b",
+  type: index % 3 === 0 ? "search" : "execute",
+  abilityId: `ability-${index}`,
+  amount: "5000",
+  amountFormatted: "0.005 USDC",
+  amountCents: 0.5,
+  verified: true,
+  success: true,
+  // Multi-byte characters land on chunk boundaries somewhere in the file
+  error: "é€😀".repeat(index % 7),
+});
+
+describe("PaymentLedger", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "unbrowse-ledger-"));
+    path = join(dir, "payments.jsonl");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reads every record of a ledger larger than one read chunk", () => {
+    const ledger = new PaymentLedger(path);
+    const records = Array.from({ length: 1500 }, (_, index) => record(index));
+    records.forEach((entry) => ledger.append(entry));
+
+    expect(ledger.query()).toEqual(records);
+    expect(ledger.query({ wallet: "wallet-a", type: "search", from: records[300].timestamp })).toEqual(
+      records.filter((entry, index) => index >= 300 && entry.wallet === "wallet-a" && entry.type === "search"),
+    );
+  });
+
+  it("skips a partially written last line", () => {
+    const ledger = new PaymentLedger(path);
+    ledger.append(record(1));
+    appendFileSync(path, JSON.stringify(record(2)).slice(0, 40));
+
+    expect(ledger.query()).toEqual([record(1)]);
+  });
+});
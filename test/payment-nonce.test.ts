@@ -0,0 +1,186 @@
+import { Keypair, Transaction } from "@solana/web3.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { UnbrowseX402Client } from "../src/api-client.js";
+import { KeypairSigner } from "../src/payment-signer.js";
+import { NonceCollisionError, NonceManager } from "../src/payment-nonce.js";
+import { USDC_MINTS, X402_PRICES } from "../src/x402-solana.js";
+
+// On-chain state seen through the mocked Connection
+const chain = vi.hoisted(() => ({
+  takenPdas: new Set<string>(),
+  takenLookups: 0, // The next N payment record lookups report an existing account
+}));
+
+vi.mock("@solana/web3.js", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@solana/web3.js")>();
+  class Connection {
+    async getAccountInfo(address: InstanceType<typeof actual.PublicKey>) {
+      if (chain.takenLookups > 0) {
+        chain.takenLookups--;
+        chain.takenPdas.add(address.toBase58());
+      }
+      return chain.takenPdas.has(address.toBase58()) ? { data: Buffer.alloc(0) } : null;
+    }
+    async getLatestBlockhash() {
+      // Let concurrent payments interleave between nonce allocation and signing
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return { blockhash: actual.PublicKey.default.toBase58(), lastValidBlockHeight: 1 };
+    }
+  }
+  return { ...actual, Connection };
+});
+
+// Every token account exists and the wallet is funded
+vi.mock("@solana/spl-token", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@solana/spl-token")>()),
+  getAccount: async () => ({ amount: 1_000_000_000n }),
+}));
+
+const RECIPIENT = Keypair.generate().publicKey.toBase58();
+
+const paymentRequired = () =>
+  new Response(
+    JSON.stringify({
+      payment: {
+        type: "usdc",
+        network: "solana",
+        chain: "devnet",
+        recipient: RECIPIENT,
+        amount: String(X402_PRICES.execute),
+        amountFormatted: "0.005 USDC",
+        mint: USDC_MINTS.devnet,
+        description: "Ability execution",
+      },
+    }),
+    { status: 402 },
+  );
+
+/**
+ * Reads the nonce and payment record from the settle instruction of an X-Payment header
+ */
+function decodePayment(header: string): { nonce: bigint; paymentRecord: string } {
+  const { transaction } = JSON.parse(Buffer.from(header, "base64").toString("utf8"));
+  const settle = Transaction.from(Buffer.from(transaction, "base64")).instructions.at(-1)!;
+  return { nonce: settle.data.readBigUInt64LE(1), paymentRecord: settle.keys[1].pubkey.toBase58() };
+}
+
+describe("NonceManager", () => {
+  it("hands out distinct nonces to concurrent callers", async () => {
+    const manager = new NonceManager();
+    const nonces = await Promise.all(
+      Array.from({ length: 20 }, () => manager.allocate(async () => false)),
+    );
+    expect(new Set(nonces).size).toBe(20);
+  });
+
+  it("skips nonces whose payment record exists and gives up after the attempt limit", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const manager = new NonceManager();
+    const checked: bigint[] = [];
+    const nonce = await manager.allocate(async (candidate) => {
+      checked.push(candidate);
+      return checked.length < 3;
+    });
+    expect(checked).toHaveLength(3);
+    expect(nonce).toBe(checked[2]);
+
+    await expect(manager.allocate(async () => true, 2)).rejects.toBeInstanceOf(NonceCollisionError);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("UnbrowseX402Client paid requests", () => {
+  let payments: Array<{ nonce: bigint; paymentRecord: string }>;
+  let serverCollisions: number; // The next N paid requests are rejected as already in use
+
+  const createClient = () =>
+    new UnbrowseX402Client({
+      signer: new KeypairSigner(Keypair.generate()),
+      rpcUrl: "http://rpc.test",
+      baseUrl: "http://api.test",
+      ledgerPath: null,
+      paymentPolicy: { allowedRecipients: [RECIPIENT] },
+    });
+
+  beforeEach(() => {
+    payments = [];
+    serverCollisions = 0;
+    chain.takenPdas.clear();
+    chain.takenLookups = 0;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", async (_url: string, init: RequestInit = {}) => {
+      const header = (init.headers as Record<string, string> | undefined)?.["X-Payment"];
+      if (!header) return paymentRequired();
+
+      const payment = decodePayment(header);
+      payments.push(payment);
+      if (serverCollisions > 0) {
+        serverCollisions--;
+        return new Response(
+          JSON.stringify({ error: `Allocate: account Address { address: ${payment.paymentRecord} } already in use` }),
+          { status: 400 },
+        );
+      }
+      return new Response(
+        JSON.stringify({
+          success: true,
+          result: { statusCode: 200, abilityName: "Example", domain: "api.test", body: {}, executedAt: "" },
+          payment: { signature: `sig-${payment.nonce}`, verified: true },
+        }),
+        { status: 200 },
+      );
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("signs parallel payments with distinct nonces", async () => {
+    // Every payment starts in the same millisecond
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    const client = createClient();
+    const results = await Promise.all(
+      Array.from({ length: 5 }, (_, index) => client.executeAbility(`ability-${index}`, {})),
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(payments).toHaveLength(5);
+    expect(new Set(payments.map((payment) => payment.nonce)).size).toBe(5);
+    expect(new Set(payments.map((payment) => payment.paymentRecord)).size).toBe(5);
+  });
+
+  it("skips nonces whose payment record already exists on-chain", async () => {
+    chain.takenLookups = 2;
+    const result = await createClient().executeAbility("ability-1", {});
+
+    expect(result.success).toBe(true);
+    expect(chain.takenPdas.size).toBe(2);
+    expect(payments).toHaveLength(1);
+    expect(chain.takenPdas.has(payments[0].paymentRecord)).toBe(false);
+  });
+
+  it("re-signs with a new nonce when the server reports a payment record collision", async () => {
+    serverCollisions = 1;
+    const result = await createClient().executeAbility("ability-1", {});
+
+    expect(result.success).toBe(true);
+    expect(payments).toHaveLength(2);
+    expect(payments[1].nonce).not.toBe(payments[0].nonce);
+  });
+
+  it("retries parallel collisions without reusing a nonce", async () => {
+    serverCollisions = 3;
+    vi.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+    const client = createClient();
+    const results = await Promise.all(
+      Array.from({ length: 4 }, (_, index) => client.executeAbility(`ability-${index}`, {})),
+    );
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(payments).toHaveLength(7);
+    expect(new Set(payments.map((payment) => payment.nonce)).size).toBe(7);
+  });
+});
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { UnbrowseApiClient } from "../src/api-client.js";
+import { executeWrapper, type WrapperData } from "../src/wrapper-executor-enhanced.js";
+
+// Calls every host it is given and reports nothing; the test inspects the outgoing requests
+const WRAPPER_CODE = `
+export async function wrapper(payload) {
+  for (const url of payload.urls) {
+    await fetch(url);
+  }
+  return new Response("{}", { status: 200 });
+}`;
+
+const wrapperData = (): WrapperData => ({
+  input: {
+    service_name: "example",
+    ability_id: "ability-1",
+    ability_name: "Example",
+    wrapper_code: WRAPPER_CODE,
+    static_headers: [
+      { key: "api.example.com::X-Client", value: "static" },
+      { key: "::X-Default", value: "default" },
+    ],
+    dynamic_header_keys: ["api.example.com::Authorization"],
+    input_schema: {},
+    url: "https://api.example.com/v1",
+  },
+} as WrapperData);
+
+describe("executeWrapper header scoping", () => {
+  let requests: Array<{ host: string; headers: Record<string, string> }>;
+
+  beforeEach(() => {
+    requests = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", async (url: URL, init: RequestInit) => {
+      requests.push({ host: new URL(url).hostname, headers: { ...(init.headers as Record<string, string>) } });
+      return new Response("{}", { status: 200 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("sends static and credential headers only to the exact host in their key", async () => {
+    const result = await executeWrapper(
+      "ability-1",
+      { urls: ["https://api.example.com/a", "https://sub.api.example.com/b", "https://other.test/c"] },
+      {},
+      { "api.example.com::Authorization": "Bearer secret" },
+      wrapperData(),
+      undefined,
+      null,
+      { egressAllowlist: ["sub.api.example.com", "other.test"] },
+    );
+
+    expect(result.success).toBe(true);
+    expect(requests.map((request) => request.host)).toEqual(["api.example.com", "sub.api.example.com", "other.test"]);
+    expect(requests[0].headers).toMatchObject({
+      "X-Client": "static",
+      "X-Default": "default",
+      Authorization: "Bearer secret",
+    });
+    for (const request of requests.slice(1)) {
+      expect(request.headers).not.toHaveProperty("X-Client");
+      expect(request.headers).not.toHaveProperty("X-Default");
+      expect(request.headers).not.toHaveProperty("Authorization");
+    }
+  });
+});
+
+describe("executeWrapper credential expiry", () => {
+  let targetStatus: number;
+  let apiClient: { expireCredentials: ReturnType<typeof vi.fn>; searchAbilities: ReturnType<typeof vi.fn> };
+
+  const execute = () =>
+    executeWrapper(
+      "ability-1",
+      { urls: ["https://api.example.com/a"] },
+      {},
+      { "api.example.com::Authorization": "Bearer secret" },
+      {
+        input: {
+          ...wrapperData().input,
+          wrapper_code: `async function wrapper(payload) { return fetch(payload.urls[0]); }`,
+        },
+      } as WrapperData,
+      undefined,
+      apiClient as unknown as UnbrowseApiClient,
+    );
+
+  beforeEach(() => {
+    apiClient = {
+      expireCredentials: vi.fn(async () => ({ success: true })),
+      searchAbilities: vi.fn(async () => ({ success: true, count: 0, abilities: [] })),
+    };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", async () =>
+      new Response(JSON.stringify({ error: "target error" }), {
+        status: targetStatus,
+        headers: { "content-type": "application/json" },
+      }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each([404, 409, 422, 429])("leaves credentials alone on a %i response", async (status) => {
+    targetStatus = status;
+    const result = await execute();
+
+    expect(result).toMatchObject({ success: false, statusCode: status, responseBody: { error: "target error" } });
+    expect(result.credentialsExpired).toBeUndefined();
+    expect(apiClient.expireCredentials).not.toHaveBeenCalled();
+  });
+
+  it.each([401, 403])("expires the service's credentials on a %i response", async (status) => {
+    targetStatus = status;
+    const result = await execute();
+
+    expect(result).toMatchObject({ success: false, statusCode: status, credentialsExpired: true });
+    expect(apiClient.expireCredentials).toHaveBeenCalledWith("example");
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  runHeaderCodeInSandbox,
+  runTransformInSandbox,
+  runWrapperInSandbox,
+} from "../src/wrapper-sandbox.js";
+
+const SECRET = "test-solana-private-key-do-not-leak";
+
+// Exhausts the stack, then calls every bridged global at the deepest frames.
+// Any error that is not a context-realm Error came from the host.
+const ESCAPE_PROBE = `
+  let hostError = null;
+  const probe = () => {
+    try { probe(); } catch {}
+    if (hostError) return;
+    for (const attempt of [() => console.log("x"), () => btoa("x"), () => atob("eA=="), () => new URL("http://a.test")]) {
+      try { attempt(); } catch (error) {
+        if (!(error instanceof Error)) hostError = error;
+      }
+    }
+  };
+  probe();
+
+  const leaks = [];
+  if (hostError) {
+    leaks.push("host error");
+    try {
+      if (hostError.constructor.constructor("return typeof require")() === "function") leaks.push("require");
+    } catch {}
+    try {
+      const proc = hostError.constructor.constructor("return process")();
+      leaks.push("process");
+      if (typeof proc.getBuiltinModule === "function") {
+        leaks.push(proc.getBuiltinModule("fs").readFileSync("/proc/self/environ", "latin1"));
+      }
+      if (typeof proc.binding === "function") leaks.push("binding");
+    } catch (error) {
+      leaks.push("blocked: " + error.message);
+    }
+  }
+`;
+
+describe("wrapper sandbox", () => {
+  let savedKey: string | undefined;
+
+  beforeEach(() => {
+    savedKey = process.env.SOLANA_PRIVATE_KEY;
+    process.env.SOLANA_PRIVATE_KEY = SECRET;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (savedKey === undefined) delete process.env.SOLANA_PRIVATE_KEY;
+    else process.env.SOLANA_PRIVATE_KEY = savedKey;
+  });
+
+  it("runs a wrapper and returns its response", async () => {
+    const response = await runWrapperInSandbox(
+      `async function wrapper(payload) { return new Response(JSON.stringify({ echo: payload.q }), { status: 201 }); }`,
+      { q: "hello" },
+      {},
+      async () => new Response(""),
+    );
+    expect(response.status).toBe(201);
+    expect(JSON.parse(response.body)).toEqual({ echo: "hello" });
+  });
+
+  it("does not let a wrapper reach host objects through bridge errors", async () => {
+    const response = await runWrapperInSandbox(
+      `async function wrapper() { ${ESCAPE_PROBE} return new Response(JSON.stringify(leaks)); }`,
+      {},
+      {},
+      async () => new Response(""),
+    );
+    expect(response.body).not.toContain(SECRET);
+    expect(JSON.parse(response.body)).toEqual([]);
+  });
+
+  it("does not let value_code reach host objects through bridge errors", async () => {
+    const headers = await runHeaderCodeInSandbox({
+      "x-probe": `(() => { ${ESCAPE_PROBE} return JSON.stringify(leaks); })`,
+    });
+    expect(headers["x-probe"].value).not.toContain(SECRET);
+    expect(headers["x-probe"]).toEqual({ value: "[]" });
+  });
+
+  it("does not expose the host environment", async () => {
+    const response = await runWrapperInSandbox(
+      `async function wrapper() { return new Response(JSON.stringify(process.env)); }`,
+      {},
+      {},
+      async () => new Response(""),
+      { ALLOWED_VAR: "visible" },
+    );
+    expect(JSON.parse(response.body)).toEqual({ ALLOWED_VAR: "visible" });
+  });
+
+  it("terminates a synchronous infinite loop", async () => {
+    await expect(
+      runTransformInSandbox("(data) => { while (true) {} }", {}, { timeoutMs: 500 }),
+    ).rejects.toThrow(/timed out/);
+  });
+
+  it("terminates an asynchronous infinite loop", async () => {
+    await expect(
+      runWrapperInSandbox(
+        `async function wrapper() { for (;;) { await Promise.resolve(); } }`,
+        {},
+        {},
+        async () => new Response(""),
+        {},
+        { timeoutMs: 500 },
+      ),
+    ).rejects.toThrow(/timed out/);
+  });
+
+  it("terminates a wrapper that exhausts its memory limit", async () => {
+    await expect(
+      runWrapperInSandbox(
+        `async function wrapper() { const hoard = []; for (;;) { hoard.push(new Array(100000).fill(hoard.length)); await Promise.resolve(); } }`,
+        {},
+        {},
+        async () => new Response(""),
+        {},
+        { timeoutMs: 20000, memoryLimitMb: 32 },
+      ),
+    ).rejects.toThrow(/memory limit/);
+  }, 30000);
+});
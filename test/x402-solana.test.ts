@@ -0,0 +1,82 @@
+import { Keypair } from "@solana/web3.js";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { UnbrowseX402Client } from "../src/api-client.js";
+import { KeypairSigner } from "../src/payment-signer.js";
+import {
+  PLATFORM_WALLETS,
+  PaymentPolicyError,
+  USDC_MINTS,
+  X402_PRICES,
+  validatePaymentRequirement,
+  type PaymentRequirement,
+} from "../src/x402-solana.js";
+
+const UNKNOWN_WALLET = Keypair.generate().publicKey.toBase58();
+
+const requirement = (overrides: Partial<PaymentRequirement> = {}): PaymentRequirement => ({
+  type: "usdc",
+  network: "solana",
+  chain: "devnet",
+  recipient: PLATFORM_WALLETS[0],
+  amount: String(X402_PRICES.execute),
+  amountFormatted: "0.005 USDC",
+  mint: USDC_MINTS.devnet,
+  description: "Ability execution",
+  ...overrides,
+});
+
+describe("validatePaymentRequirement recipients", () => {
+  it("accepts the platform wallets without configuration", () => {
+    expect(() => validatePaymentRequirement(requirement(), "execute")).not.toThrow();
+  });
+
+  it.each([
+    ["primary recipient", { recipient: UNKNOWN_WALLET }],
+    ["split wallet", { wallet3: UNKNOWN_WALLET }],
+    ["split entry", { splits: [{ recipient: UNKNOWN_WALLET, amount: "4000", percentage: 80, label: "owner" }] }],
+  ])("rejects an unknown %s by default", (_name, overrides) => {
+    expect(() => validatePaymentRequirement(requirement(overrides), "execute")).toThrow(PaymentPolicyError);
+    expect(() => validatePaymentRequirement(requirement(overrides), "execute", { allowedRecipients: [] }))
+      .toThrow(`recipient ${UNKNOWN_WALLET} is not on the allowlist`);
+  });
+
+  it("accepts a wallet only once it is configured", () => {
+    const withUnknown = requirement({ wallet4: UNKNOWN_WALLET });
+    expect(() => validatePaymentRequirement(withUnknown, "execute", { allowedRecipients: [UNKNOWN_WALLET] })).not.toThrow();
+  });
+});
+
+describe("UnbrowseX402Client with the default payment policy", () => {
+  let paymentHeaders: string[];
+
+  beforeEach(() => {
+    paymentHeaders = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubGlobal("fetch", async (_url: string, init: RequestInit = {}) => {
+      const header = (init.headers as Record<string, string> | undefined)?.["X-Payment"];
+      if (header) paymentHeaders.push(header);
+      return new Response(JSON.stringify({ payment: requirement({ recipient: UNKNOWN_WALLET }) }), { status: 402 });
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("rejects a requirement naming an unknown recipient before signing", async () => {
+    const client = new UnbrowseX402Client({
+      signer: new KeypairSigner(Keypair.generate()),
+      rpcUrl: "http://rpc.test",
+      baseUrl: "http://api.test",
+      ledgerPath: null,
+    });
+
+    const error = await client.executeAbility("ability-1", {}).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(PaymentPolicyError);
+    expect(error.violations).toEqual([`recipient ${UNKNOWN_WALLET} is not on the allowlist (add it to UNBROWSE_X402_ALLOWED_RECIPIENTS to pay it)`]);
+    expect(paymentHeaders).toHaveLength(0);
+  });
+});